@@ -0,0 +1,93 @@
+// Writes the small PDFs in src/__fixtures__ that the destination and outline
+// tests read. Run with `node scripts/generateTestFixtures.mjs` after changing them.
+import { writeFileSync } from 'node:fs';
+
+const FIXTURE_DIR = new URL('../src/__fixtures__/', import.meta.url);
+const LETTER_PORTRAIT = [0, 0, 600, 800];
+
+/**
+ * Serializes objects (PDF source without the "n 0 obj" wrapper, object n at
+ * index n - 1) into a PDF file with a cross-reference table.
+ */
+function buildPdf(objects) {
+  let pdf = '%PDF-1.7\n';
+  const offsets = [];
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return pdf;
+}
+
+function page(mediaBox, rotate) {
+  return `<< /Type /Page /Parent 2 0 R /MediaBox [${mediaBox.join(' ')}] /Rotate ${rotate} >>`;
+}
+
+// Pages with every rotation, each with named XYZ, FitH, FitR and Fit destinations
+function destinationsPdf() {
+  const pages = [
+    ['r0', LETTER_PORTRAIT, 0],
+    ['r90', LETTER_PORTRAIT, 90],
+    ['r180', LETTER_PORTRAIT, 180],
+    ['r270', LETTER_PORTRAIT, 270],
+    ['offset', [50, 100, 650, 900], 0], // Media box not at the origin
+  ];
+  const firstPage = 4; // Objects 1-3 are the catalog, page tree and destinations
+  const dests = pages.flatMap(([prefix], index) => {
+    const ref = `${firstPage + index} 0 R`;
+    return [
+      `/${prefix}-xyz [${ref} /XYZ 100 700 null]`,
+      `/${prefix}-fith [${ref} /FitH 500]`,
+      `/${prefix}-fitr [${ref} /FitR 100 200 300 400]`,
+      `/${prefix}-fitv [${ref} /FitV 150]`,
+      `/${prefix}-fit [${ref} /Fit]`,
+    ];
+  });
+  dests.push(`/r0-xyz-unset [${firstPage} 0 R /XYZ null null null]`);
+
+  return buildPdf([
+    '<< /Type /Catalog /Pages 2 0 R /Dests 3 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${firstPage + index} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< ${dests.join(' ')} >>`,
+    ...pages.map(([, mediaBox, rotate]) => page(mediaBox, rotate)),
+  ]);
+}
+
+// An outline with sections sharing pages, a shared position, a rotated page,
+// a whole-page destination and a final page without sections
+function sectionsPdf() {
+  const rotations = [0, 0, 90, 0, 0];
+  const firstPage = 3; // Objects 1-2 are the catalog and page tree
+  const outlinesObject = firstPage + rotations.length;
+  const items = [
+    ['1 Introduction', 0, '/XYZ 72 750 null'],
+    ['1.1 Background', 0, '/XYZ 72 400 null'],
+    ['2 Method', 1, '/FitH 600'],
+    ['2.1 Data', 1, '/FitH 600'],
+    ['3 Results', 2, '/XYZ 300 500 null'],
+    ['3.1 Ablation', 2, '/XYZ 450 500 null'],
+    ['Appendix', 3, '/Fit'],
+  ];
+  // A flat outline keeps the object layout simple; nesting doesn't matter to the index
+  const itemObjects = items.map(([title, pageIndex, dest], index) => {
+    const number = outlinesObject + 1 + index;
+    const prev = index > 0 ? ` /Prev ${number - 1} 0 R` : '';
+    const next = index < items.length - 1 ? ` /Next ${number + 1} 0 R` : '';
+    return `<< /Title (${title}) /Parent ${outlinesObject} 0 R${prev}${next} /Dest [${firstPage + pageIndex} 0 R ${dest}] >>`;
+  });
+
+  return buildPdf([
+    `<< /Type /Catalog /Pages 2 0 R /Outlines ${outlinesObject} 0 R >>`,
+    `<< /Type /Pages /Kids [${rotations.map((_, index) => `${firstPage + index} 0 R`).join(' ')}] /Count ${rotations.length} >>`,
+    ...rotations.map(rotate => page(LETTER_PORTRAIT, rotate)),
+    `<< /Type /Outlines /First ${outlinesObject + 1} 0 R /Last ${outlinesObject + items.length} 0 R /Count ${items.length} >>`,
+    ...itemObjects,
+  ]);
+}
+
+writeFileSync(new URL('destinations.pdf', FIXTURE_DIR), destinationsPdf(), 'latin1');
+writeFileSync(new URL('sections.pdf', FIXTURE_DIR), sectionsPdf(), 'latin1');
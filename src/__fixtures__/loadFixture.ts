@@ -0,0 +1,12 @@
+import { readFile } from 'node:fs/promises';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+/**
+ * Opens one of the fixture PDFs next to this file. They are written by
+ * scripts/generateTestFixtures.mjs.
+ */
+export async function loadFixture(name: string): Promise<PDFDocumentProxy> {
+  const data = await readFile(new URL(name, import.meta.url));
+  return getDocument({ data: new Uint8Array(data) }).promise;
+}
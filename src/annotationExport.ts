@@ -0,0 +1,238 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { HIGHLIGHT_COLORS, type Annotation, type HighlightColor, type PdfRect } from './annotationStore';
+import { getDocumentAnnotations, importAnnotations } from './annotations';
+import { getDocumentTitle } from './documentInfo';
+import { downloadFile, toFileName } from './download';
+
+// --- Constants ---
+const EXPORT_FORMAT = 'acareader-annotations';
+const EXPORT_VERSION = 1;
+
+// --- Type Aliases ---
+// Lossless JSON export, re-importable on another machine
+export type AnnotationExport = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  fingerprint: string;
+  title: string | null;
+  source: string | null;
+  exportedAt: string; // ISO 8601
+  annotations: Annotation[];
+};
+
+export type AnnotationExportOptions = {
+  getDocument: () => PDFDocumentProxy | null;
+  // File name or URL the current document was opened from
+  getSource: () => string | null;
+  // Returns the title of the outline section containing the given position, if any
+  getSectionTitle: (pageIndex: number, x: number, y: number) => string | null;
+  setStatus: (message: string) => void;
+  showError: (message: string) => void;
+  elements: {
+    exportMarkdownButton: HTMLButtonElement;
+    exportJsonButton: HTMLButtonElement;
+    importButton: HTMLButtonElement;
+    importInput: HTMLInputElement;
+  };
+};
+
+/**
+ * Wires the export and import buttons of the annotations panel.
+ */
+export function initAnnotationExport(exportOptions: AnnotationExportOptions) {
+  const { elements } = exportOptions;
+
+  elements.exportMarkdownButton.addEventListener('click', () => {
+    exportAnnotations(exportOptions, 'markdown').catch(error => {
+      console.error("Error exporting annotations:", error);
+      exportOptions.showError('Could not export annotations.');
+    });
+  });
+  elements.exportJsonButton.addEventListener('click', () => {
+    exportAnnotations(exportOptions, 'json').catch(error => {
+      console.error("Error exporting annotations:", error);
+      exportOptions.showError('Could not export annotations.');
+    });
+  });
+
+  elements.importButton.addEventListener('click', () => elements.importInput.click());
+  elements.importInput.addEventListener('change', () => {
+    const file = elements.importInput.files?.[0];
+    elements.importInput.value = '';
+    if (!file) return;
+    importAnnotationFile(exportOptions, file).catch(error => {
+      console.error("Error importing annotations:", error);
+      exportOptions.showError(`Could not import annotations: ${error instanceof Error ? error.message : error}`);
+    });
+  });
+}
+
+// --- Export ---
+async function exportAnnotations(exportOptions: AnnotationExportOptions, format: 'markdown' | 'json') {
+  const pdfDocument = exportOptions.getDocument();
+  const { fingerprint, annotations } = getDocumentAnnotations();
+  if (!pdfDocument || !fingerprint) {
+    exportOptions.setStatus('Open a PDF to export its annotations.');
+    return;
+  }
+  if (annotations.length === 0) {
+    exportOptions.setStatus('No highlights to export.');
+    return;
+  }
+
+  const title = await getDocumentTitle(pdfDocument);
+  const source = exportOptions.getSource();
+  const baseName = toFileName(title ?? source ?? 'document');
+
+  if (format === 'json') {
+    const data: AnnotationExport = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      fingerprint,
+      title,
+      source,
+      exportedAt: new Date().toISOString(),
+      annotations,
+    };
+    downloadFile(`${baseName}.annotations.json`, JSON.stringify(data, null, 2), 'application/json');
+  } else {
+    const markdown = annotationsToMarkdown(annotations, { title, source, fingerprint, getSectionTitle: exportOptions.getSectionTitle });
+    downloadFile(`${baseName}.md`, markdown, 'text/markdown');
+  }
+  exportOptions.setStatus(`Exported ${annotations.length} annotations.`);
+}
+
+/**
+ * Renders annotations as Markdown grouped by outline section, with YAML front
+ * matter for note-taking tools such as Obsidian or Zotero.
+ */
+export function annotationsToMarkdown(
+  annotations: Annotation[],
+  meta: { title: string | null; source: string | null; fingerprint: string; getSectionTitle: (pageIndex: number, x: number, y: number) => string | null },
+): string {
+  const lines: string[] = [
+    '---',
+    `title: ${JSON.stringify(meta.title ?? 'Untitled')}`,
+    ...(meta.source ? [`source: ${JSON.stringify(meta.source)}`] : []),
+    `fingerprint: ${meta.fingerprint}`,
+    `exported: ${new Date().toISOString()}`,
+    '---',
+    '',
+    `# ${meta.title ?? 'Untitled'}`,
+    '',
+  ];
+
+  // Annotations arrive in reading order, so sections appear in document order
+  let currentSection: string | null = null;
+  for (const annotation of annotations) {
+    const left = Math.min(...annotation.rects.map(rect => rect[0]));
+    const top = Math.max(...annotation.rects.map(rect => rect[3]));
+    const section = meta.getSectionTitle(annotation.pageIndex, left, top);
+    if (section && section !== currentSection) {
+      lines.push(`## ${section}`, '');
+      currentSection = section;
+    }
+
+    lines.push(...annotation.text.split('\n').map(line => `> ${line}`));
+    lines.push(`> — p. ${annotation.pageIndex + 1}`, '');
+    if (annotation.note.trim()) {
+      lines.push(annotation.note.trim(), '');
+    }
+  }
+  return lines.join('\n');
+}
+
+// --- Import ---
+async function importAnnotationFile(exportOptions: AnnotationExportOptions, file: File) {
+  const { fingerprint } = getDocumentAnnotations();
+  if (!fingerprint) {
+    exportOptions.setStatus('Open a PDF before importing annotations.');
+    return;
+  }
+
+  const data = parseAnnotationExport(await file.text());
+  if (data.fingerprint !== fingerprint) {
+    const from = data.title ? `"${data.title}"` : 'another document';
+    const proceed = window.confirm(`These annotations were exported from ${from}, not the document that is open. Positions may not match. Import anyway?`);
+    if (!proceed) return;
+  }
+
+  const count = await importAnnotations(data.annotations);
+  exportOptions.setStatus(`Imported ${count} annotations.`);
+}
+
+/**
+ * Parses and validates a JSON export. Throws if the content is not an export.
+ */
+export function parseAnnotationExport(text: string): AnnotationExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT || !Array.isArray(data.annotations)) {
+    throw new Error('File is not an annotation export.');
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version: ${String(data.version)}`);
+  }
+  if (typeof data.fingerprint !== 'string' || !isOptionalString(data.title) || !isOptionalString(data.source) ||
+    typeof data.exportedAt !== 'string') {
+    throw new Error('File is not an annotation export.');
+  }
+
+  const annotations = data.annotations.map((entry, index) => {
+    const annotation = parseAnnotation(entry);
+    if (!annotation) throw new Error(`File contains a malformed annotation (entry ${index + 1}).`);
+    return annotation;
+  });
+  return {
+    format: EXPORT_FORMAT,
+    version: data.version,
+    fingerprint: data.fingerprint,
+    title: data.title ?? null,
+    source: data.source ?? null,
+    exportedAt: data.exportedAt,
+    annotations,
+  };
+}
+
+// Copies the fields of a stored annotation, or returns null if any is missing or of the wrong type
+function parseAnnotation(value: unknown): Annotation | null {
+  if (!isRecord(value)) return null;
+  const { id, fingerprint, pageIndex, color, text, note, rects, createdAt, updatedAt } = value;
+  if (typeof id !== 'string' || typeof fingerprint !== 'string' || typeof text !== 'string' || typeof note !== 'string') return null;
+  if (!Number.isInteger(pageIndex) || (pageIndex as number) < 0) return null;
+  if (!HIGHLIGHT_COLORS.includes(color as HighlightColor)) return null;
+  if (!Array.isArray(rects) || rects.length === 0 || !rects.every(isPdfRect)) return null;
+  if (!isFiniteNumber(createdAt) || !isFiniteNumber(updatedAt)) return null;
+
+  return {
+    id,
+    fingerprint,
+    pageIndex: pageIndex as number,
+    color: color as HighlightColor,
+    text,
+    note,
+    rects: rects.map(rect => [...rect] as PdfRect),
+    createdAt,
+    updatedAt,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOptionalString(value: unknown): value is string | null | undefined {
+  return value === null || value === undefined || typeof value === 'string';
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPdfRect(value: unknown): value is PdfRect {
+  return Array.isArray(value) && value.length === 4 && value.every(isFiniteNumber);
+}
@@ -0,0 +1,38 @@
+import { ANNOTATION_STORE, FINGERPRINT_INDEX, runRequest } from './database';
+
+// --- Type Aliases ---
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+export const HIGHLIGHT_COLORS: readonly HighlightColor[] = ['yellow', 'green', 'blue', 'pink'];
+
+// PDF-space rectangle [x1, y1, x2, y2], independent of zoom and rotation
+export type PdfRect = [number, number, number, number];
+
+export type Annotation = {
+  id: string;
+  fingerprint: string; // Fingerprint of the PDF the annotation belongs to
+  pageIndex: number; // 0-based
+  color: HighlightColor;
+  text: string; // Highlighted text as selected
+  note: string; // Attached note, empty if none
+  rects: PdfRect[]; // Highlighted areas in PDF coordinates
+  createdAt: number; // ms since epoch
+  updatedAt: number; // ms since epoch
+};
+
+/**
+ * Loads all annotations stored for the document with the given fingerprint.
+ */
+export function getAnnotations(fingerprint: string): Promise<Annotation[]> {
+  return runRequest(ANNOTATION_STORE, 'readonly', store => store.index(FINGERPRINT_INDEX).getAll(fingerprint));
+}
+
+/**
+ * Inserts or replaces an annotation.
+ */
+export async function putAnnotation(annotation: Annotation): Promise<void> {
+  await runRequest(ANNOTATION_STORE, 'readwrite', store => store.put(annotation));
+}
+
+export async function deleteAnnotation(id: string): Promise<void> {
+  await runRequest(ANNOTATION_STORE, 'readwrite', store => store.delete(id));
+}
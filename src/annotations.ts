@@ -0,0 +1,475 @@
+import type { PageViewport, PDFDocumentProxy } from 'pdfjs-dist';
+import type { EventBus, PDFLinkService, PDFViewer } from 'pdfjs-dist/web/pdf_viewer.mjs';
+import {
+  deleteAnnotation,
+  getAnnotations,
+  putAnnotation,
+  type Annotation,
+  type HighlightColor,
+  type PdfRect,
+} from './annotationStore';
+import { joinLines } from './textCleanup';
+
+// --- Constants ---
+const NOTE_SAVE_DELAY_MS = 400;
+const LINE_MERGE_TOLERANCE = 3; // CSS pixels; rects closer than this on the same line are merged
+
+// --- Type Aliases ---
+export type AnnotationsOptions = {
+  eventBus: EventBus;
+  pdfViewer: PDFViewer;
+  linkService: PDFLinkService;
+  getDocument: () => PDFDocumentProxy | null;
+  setStatus: (message: string) => void;
+  // Called when the annotations panel should be brought into view
+  showAnnotationsPanel: () => void;
+  elements: {
+    viewerContainer: HTMLElement;
+    selectionToolbar: HTMLElement; // Holds buttons with data-color and data-action="note", among others
+    annotationsList: HTMLElement;
+  };
+};
+
+type ViewportRect = { left: number; top: number; right: number; bottom: number };
+
+// --- Module State ---
+let options: AnnotationsOptions | null = null;
+let documentFingerprint: string | null = null;
+let annotations: Annotation[] = [];
+const noteSaveTimers = new Map<string, ReturnType<typeof setTimeout>>(); // annotation id -> pending save
+const highlightViewers = new Set<PDFViewer>(); // Viewers highlights are drawn in
+
+/**
+ * Wires text-selection highlighting, the per-page highlight layers and the
+ * annotations sidebar list.
+ */
+export function initAnnotations(annotationsOptions: AnnotationsOptions) {
+  options = annotationsOptions;
+  const { eventBus, elements } = annotationsOptions;
+
+  // Offer the highlight toolbar once a selection inside a text layer is made
+  elements.viewerContainer.addEventListener('mouseup', () => {
+    // Let the browser finalize the selection first
+    setTimeout(updateSelectionToolbar, 0);
+  });
+  elements.viewerContainer.addEventListener('mousedown', (event) => {
+    if (!elements.selectionToolbar.contains(event.target as Node)) hideSelectionToolbar();
+  });
+  elements.viewerContainer.addEventListener('scroll', hideSelectionToolbar, { passive: true });
+
+  // Keep the text selection alive while pressing toolbar buttons
+  elements.selectionToolbar.addEventListener('mousedown', (event) => event.preventDefault());
+  elements.selectionToolbar.addEventListener('click', (event) => {
+    const button = (event.target as Element).closest<HTMLElement>('button');
+    // Other buttons, such as the copy actions, are handled elsewhere
+    if (!button || (!button.dataset.color && button.dataset.action !== 'note')) return;
+    const withNote = button.dataset.action === 'note';
+    const color = (button.dataset.color as HighlightColor | undefined) ?? 'yellow';
+    createHighlightFromSelection(color, withNote).catch(error => {
+      console.error("Error creating highlight:", error);
+      annotationsOptions.setStatus('Could not save highlight.');
+    });
+  });
+
+  addHighlightViewer(eventBus, annotationsOptions.pdfViewer);
+}
+
+/**
+ * Draws highlights in another viewer, such as the second pane of the split
+ * view, while it shows the same document. Highlights are created from the main
+ * viewer only.
+ */
+export function addHighlightViewer(eventBus: EventBus, pdfViewer: PDFViewer) {
+  highlightViewers.add(pdfViewer);
+  // pdf.js clears foreign page children whenever a page is re-rendered (e.g. on zoom)
+  eventBus.on('pagerendered', (evt: { pageNumber: number }) => renderPageHighlights(pdfViewer, evt.pageNumber - 1));
+  eventBus.on('textlayerrendered', (evt: { pageNumber: number }) => renderPageHighlights(pdfViewer, evt.pageNumber - 1));
+}
+
+/**
+ * Loads the stored annotations for `pdfDocument` and draws them.
+ */
+export async function loadDocumentAnnotations(pdfDocument: PDFDocumentProxy) {
+  clearAnnotations();
+  const fingerprint = pdfDocument.fingerprints[0];
+  if (!fingerprint) return;
+  documentFingerprint = fingerprint;
+
+  try {
+    const stored = await getAnnotations(fingerprint);
+    if (documentFingerprint !== fingerprint) return; // Another document was loaded meanwhile
+    annotations = stored;
+    console.log(`Loaded ${annotations.length} annotations for document ${fingerprint}`);
+  } catch (error) {
+    console.error("Error loading annotations:", error);
+    options?.setStatus('Could not load saved annotations.');
+  }
+  renderAllHighlights();
+  renderAnnotationList();
+}
+
+/**
+ * Forgets the current document's annotations (they stay in storage).
+ */
+export function clearAnnotations() {
+  flushPendingNotes();
+  documentFingerprint = null;
+  annotations = [];
+  hideSelectionToolbar();
+  if (options) options.elements.annotationsList.innerHTML = '';
+}
+
+/**
+ * Returns the current document's fingerprint and its annotations in reading order.
+ */
+export function getDocumentAnnotations(): { fingerprint: string | null; annotations: Annotation[] } {
+  return { fingerprint: documentFingerprint, annotations: sortedAnnotations() };
+}
+
+/**
+ * Stores `imported` for the current document, replacing annotations with the
+ * same id. Annotations are re-keyed to the current document's fingerprint.
+ * Returns the number of annotations imported.
+ */
+export async function importAnnotations(imported: Annotation[]): Promise<number> {
+  if (!documentFingerprint) return 0;
+  const fingerprint = documentFingerprint;
+  const rekeyed = imported.map(annotation => ({ ...annotation, fingerprint }));
+
+  for (const annotation of rekeyed) {
+    await putAnnotation(annotation);
+  }
+  if (documentFingerprint !== fingerprint) return rekeyed.length; // Document changed meanwhile
+
+  const importedIds = new Set(rekeyed.map(annotation => annotation.id));
+  annotations = [...annotations.filter(a => !importedIds.has(a.id)), ...rekeyed];
+  renderAllHighlights();
+  renderAnnotationList();
+  return rekeyed.length;
+}
+
+// --- Selection Toolbar ---
+function getTextLayerSelection(): { range: Range; pageDiv: HTMLElement; textLayer: HTMLElement } | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!range.toString().trim()) return null;
+
+  const startElement = range.startContainer instanceof Element ? range.startContainer : range.startContainer.parentElement;
+  const endElement = range.endContainer instanceof Element ? range.endContainer : range.endContainer.parentElement;
+  const textLayer = startElement?.closest<HTMLElement>('.textLayer');
+  const pageDiv = textLayer?.closest<HTMLElement>('.page');
+  if (!textLayer || !pageDiv) return null;
+  // Highlights are stored per page
+  if (endElement?.closest('.page') !== pageDiv) return null;
+  return { range, pageDiv, textLayer };
+}
+
+function updateSelectionToolbar() {
+  if (!options || !documentFingerprint) return;
+  const { selectionToolbar } = options.elements;
+  const selected = getTextLayerSelection();
+  if (!selected) {
+    hideSelectionToolbar();
+    return;
+  }
+
+  const rect = selected.range.getBoundingClientRect();
+  selectionToolbar.classList.remove('hidden');
+  const toolbarRect = selectionToolbar.getBoundingClientRect();
+  // Above the selection if there is room, below otherwise
+  let top = rect.top - toolbarRect.height - 6;
+  if (top < 0) top = rect.bottom + 6;
+  const left = Math.max(4, Math.min(rect.left + rect.width / 2 - toolbarRect.width / 2, window.innerWidth - toolbarRect.width - 4));
+  selectionToolbar.style.top = `${top}px`;
+  selectionToolbar.style.left = `${left}px`;
+}
+
+function hideSelectionToolbar() {
+  options?.elements.selectionToolbar.classList.add('hidden');
+}
+
+// --- Highlight Creation ---
+async function createHighlightFromSelection(color: HighlightColor, withNote: boolean) {
+  if (!options || !documentFingerprint) return;
+  const selected = getTextLayerSelection();
+  if (!selected) {
+    options.setStatus('Select text within a single page to highlight it.');
+    return;
+  }
+
+  const { range, pageDiv, textLayer } = selected;
+  const pageIndex = Number(pageDiv.dataset.pageNumber) - 1;
+  const pageView = options.pdfViewer.getPageView(pageIndex);
+  if (!pageView?.viewport) return;
+
+  const rects = selectionToPdfRects(range, textLayer, pageView.viewport);
+  if (rects.length === 0) return;
+
+  const selectedText = range.toString();
+
+  const now = Date.now();
+  const annotation: Annotation = {
+    id: crypto.randomUUID(),
+    fingerprint: documentFingerprint,
+    pageIndex,
+    color,
+    text: joinLines(selectedText.split('\n')).trim(),
+    note: '',
+    rects,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await putAnnotation(annotation);
+  annotations.push(annotation);
+  window.getSelection()?.removeAllRanges();
+  hideSelectionToolbar();
+  renderHighlightsOnPage(pageIndex);
+  renderAnnotationList();
+
+  if (withNote) {
+    options.showAnnotationsPanel();
+    focusAnnotationNote(annotation.id);
+  }
+}
+
+// Converts the client rects of a selection to merged PDF-space rectangles
+function selectionToPdfRects(range: Range, textLayer: HTMLElement, viewport: PageViewport): PdfRect[] {
+  const layerRect = textLayer.getBoundingClientRect();
+  if (layerRect.width === 0 || layerRect.height === 0) return [];
+  // The layer may be CSS-scaled while a zoom change is pending
+  const scaleX = viewport.width / layerRect.width;
+  const scaleY = viewport.height / layerRect.height;
+
+  const lineRects: ViewportRect[] = [];
+  for (const clientRect of Array.from(range.getClientRects())) {
+    if (clientRect.width < 1 || clientRect.height < 1) continue;
+    const rect = {
+      left: (clientRect.left - layerRect.left) * scaleX,
+      top: (clientRect.top - layerRect.top) * scaleY,
+      right: (clientRect.right - layerRect.left) * scaleX,
+      bottom: (clientRect.bottom - layerRect.top) * scaleY,
+    };
+    // Merge with an existing rect on the same line if they touch or overlap
+    const sameLine = lineRects.find(existing =>
+      Math.abs(existing.top - rect.top) < LINE_MERGE_TOLERANCE &&
+      Math.abs(existing.bottom - rect.bottom) < LINE_MERGE_TOLERANCE &&
+      rect.left <= existing.right + LINE_MERGE_TOLERANCE &&
+      rect.right >= existing.left - LINE_MERGE_TOLERANCE);
+    if (sameLine) {
+      sameLine.left = Math.min(sameLine.left, rect.left);
+      sameLine.right = Math.max(sameLine.right, rect.right);
+      sameLine.top = Math.min(sameLine.top, rect.top);
+      sameLine.bottom = Math.max(sameLine.bottom, rect.bottom);
+    } else {
+      lineRects.push(rect);
+    }
+  }
+
+  return lineRects.map(rect => {
+    const [x1, y1] = viewport.convertToPdfPoint(rect.left, rect.top);
+    const [x2, y2] = viewport.convertToPdfPoint(rect.right, rect.bottom);
+    return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+  });
+}
+
+// --- Highlight Rendering ---
+function renderAllHighlights() {
+  for (const pdfViewer of highlightViewers) {
+    for (let i = 0; i < pdfViewer.pagesCount; i++) {
+      renderPageHighlights(pdfViewer, i);
+    }
+  }
+}
+
+function renderHighlightsOnPage(pageIndex: number) {
+  for (const pdfViewer of highlightViewers) {
+    renderPageHighlights(pdfViewer, pageIndex);
+  }
+}
+
+function renderPageHighlights(pdfViewer: PDFViewer, pageIndex: number) {
+  const pageView = pdfViewer.getPageView(pageIndex);
+  const pageDiv: HTMLElement | undefined = pageView?.div;
+  const viewport = pageView?.viewport;
+  if (!pageDiv || !viewport) return;
+
+  pageDiv.querySelector('.highlightLayer')?.remove();
+  if (pdfViewer.pdfDocument !== options?.getDocument()) return; // Another document, e.g. a version being compared
+  const pageAnnotations = annotations.filter(a => a.pageIndex === pageIndex);
+  if (pageAnnotations.length === 0) return;
+
+  const layer = document.createElement('div');
+  layer.className = 'highlightLayer';
+
+  for (const annotation of pageAnnotations) {
+    let markerTop = Infinity;
+    for (const pdfRect of annotation.rects) {
+      // Percentages keep highlights aligned while pdf.js CSS-scales pages during zoom
+      const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(pdfRect);
+      const left = Math.min(x1, x2);
+      const top = Math.min(y1, y2);
+      const highlight = document.createElement('div');
+      highlight.className = `highlight highlight-${annotation.color}`;
+      highlight.dataset.annotationId = annotation.id;
+      highlight.style.left = `${(left / viewport.width) * 100}%`;
+      highlight.style.top = `${(top / viewport.height) * 100}%`;
+      highlight.style.width = `${(Math.abs(x2 - x1) / viewport.width) * 100}%`;
+      highlight.style.height = `${(Math.abs(y2 - y1) / viewport.height) * 100}%`;
+      layer.appendChild(highlight);
+      markerTop = Math.min(markerTop, top);
+    }
+
+    // Margin marker for highlights with a note
+    if (annotation.note && markerTop !== Infinity) {
+      const marker = document.createElement('button');
+      marker.className = `highlightNoteMarker highlight-${annotation.color}`;
+      marker.title = annotation.note;
+      marker.textContent = '✎';
+      marker.style.top = `${(markerTop / viewport.height) * 100}%`;
+      marker.addEventListener('click', () => {
+        options?.showAnnotationsPanel();
+        focusAnnotationNote(annotation.id);
+      });
+      layer.appendChild(marker);
+    }
+  }
+
+  // Below the text layer so text stays selectable on top of highlights
+  const textLayer = pageDiv.querySelector('.textLayer');
+  pageDiv.insertBefore(layer, textLayer);
+}
+
+// --- Annotations Sidebar ---
+function sortedAnnotations(): Annotation[] {
+  // Reading order: by page, then top to bottom (PDF y grows upwards)
+  const topOf = (annotation: Annotation) => Math.max(...annotation.rects.map(rect => rect[3]));
+  return [...annotations].sort((a, b) => a.pageIndex - b.pageIndex || topOf(b) - topOf(a));
+}
+
+function renderAnnotationList() {
+  if (!options) return;
+  const { annotationsList } = options.elements;
+  annotationsList.innerHTML = '';
+
+  if (annotations.length === 0) {
+    annotationsList.innerHTML = '<em>No highlights yet. Select text to highlight it.</em>';
+    return;
+  }
+
+  const list = document.createElement('ul');
+  list.className = 'annotationList';
+  for (const annotation of sortedAnnotations()) {
+    list.appendChild(createAnnotationItem(annotation));
+  }
+  annotationsList.appendChild(list);
+}
+
+function createAnnotationItem(annotation: Annotation): HTMLLIElement {
+  const li = document.createElement('li');
+  li.className = 'annotationItem';
+  li.dataset.annotationId = annotation.id;
+
+  const header = document.createElement('div');
+  header.className = 'annotationHeader';
+  const swatch = document.createElement('span');
+  swatch.className = `annotationSwatch highlight-${annotation.color}`;
+  const page = document.createElement('span');
+  page.textContent = `p. ${annotation.pageIndex + 1}`;
+  const deleteButton = document.createElement('button');
+  deleteButton.className = 'annotationDelete';
+  deleteButton.title = 'Delete highlight';
+  deleteButton.textContent = '✕';
+  header.append(swatch, page, deleteButton);
+
+  const quote = document.createElement('blockquote');
+  quote.textContent = annotation.text;
+
+  const note = document.createElement('textarea');
+  note.className = 'annotationNote';
+  note.placeholder = 'Add a note…';
+  note.rows = 2;
+  note.value = annotation.note;
+
+  li.append(header, quote, note);
+
+  // Navigate to the highlight when clicking the entry itself
+  li.addEventListener('click', (event) => {
+    if (event.target === note || event.target === deleteButton) return;
+    goToAnnotation(annotation);
+  });
+  note.addEventListener('input', () => {
+    annotation.note = note.value;
+    annotation.updatedAt = Date.now();
+    scheduleNoteSave(annotation);
+  });
+  deleteButton.addEventListener('click', () => {
+    removeAnnotation(annotation).catch(error => {
+      console.error("Error deleting annotation:", error);
+      options?.setStatus('Could not delete highlight.');
+    });
+  });
+  return li;
+}
+
+function goToAnnotation(annotation: Annotation) {
+  const firstRect = annotation.rects[0];
+  if (!options || !firstRect) return;
+  options.linkService.goToXY(annotation.pageIndex + 1, firstRect[0], firstRect[3]);
+
+  // Briefly emphasize the highlight on the page
+  const pageDiv: HTMLElement | undefined = options.pdfViewer.getPageView(annotation.pageIndex)?.div;
+  pageDiv?.querySelectorAll(`.highlight[data-annotation-id="${annotation.id}"]`).forEach(element => {
+    element.classList.remove('flash');
+    void (element as HTMLElement).offsetWidth; // Restart the animation
+    element.classList.add('flash');
+  });
+}
+
+function focusAnnotationNote(id: string) {
+  const item = options?.elements.annotationsList.querySelector<HTMLElement>(`.annotationItem[data-annotation-id="${id}"]`);
+  item?.scrollIntoView({ block: 'nearest' });
+  item?.querySelector('textarea')?.focus();
+}
+
+async function removeAnnotation(annotation: Annotation) {
+  const pendingSave = noteSaveTimers.get(annotation.id);
+  if (pendingSave) {
+    clearTimeout(pendingSave);
+    noteSaveTimers.delete(annotation.id);
+  }
+  await deleteAnnotation(annotation.id);
+  annotations = annotations.filter(a => a.id !== annotation.id);
+  renderHighlightsOnPage(annotation.pageIndex);
+  renderAnnotationList();
+}
+
+// --- Note Persistence ---
+function scheduleNoteSave(annotation: Annotation) {
+  const pending = noteSaveTimers.get(annotation.id);
+  if (pending) clearTimeout(pending);
+  noteSaveTimers.set(annotation.id, setTimeout(() => {
+    noteSaveTimers.delete(annotation.id);
+    saveNote(annotation);
+  }, NOTE_SAVE_DELAY_MS));
+}
+
+function saveNote(annotation: Annotation) {
+  putAnnotation(annotation).catch(error => {
+    console.error("Error saving note:", error);
+    options?.setStatus('Could not save note.');
+  });
+  // Note markers in the margin depend on whether a note exists
+  if (annotation.fingerprint === documentFingerprint) renderHighlightsOnPage(annotation.pageIndex);
+}
+
+// Saves notes still waiting for their debounce, e.g. before switching documents
+function flushPendingNotes() {
+  for (const [id, timer] of noteSaveTimers) {
+    clearTimeout(timer);
+    const annotation = annotations.find(a => a.id === id);
+    if (annotation) saveNote(annotation);
+  }
+  noteSaveTimers.clear();
+}
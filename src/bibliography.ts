@@ -0,0 +1,254 @@
+// --- Type Aliases ---
+export type ReferenceKind = 'article' | 'inproceedings' | 'book' | 'thesis' | 'report' | 'misc';
+
+export type ReferenceAuthor = {
+  family: string;
+  given: string;
+};
+
+// A bibliography entry with its fields guessed from the plain text
+export type ParsedReference = {
+  label: string | null; // "[12]", "12." or "[Smi20]" in labelled styles
+  text: string; // Full entry text
+  kind: ReferenceKind;
+  authors: ReferenceAuthor[];
+  title: string | null;
+  venue: string | null; // Journal, proceedings, publisher, ...
+  year: string | null;
+};
+
+// --- Constants ---
+const YEAR_PATTERN = /\b(?:1[89]|20)\d{2}[a-z]?\b/g;
+const PAREN_YEAR_PATTERN = /\(\s*((?:1[89]|20)\d{2}[a-z]?)\s*\)\.?/;
+const QUOTED_TITLE_PATTERN = /[“"](.{4,}?)[,.]?[”"]/;
+// Words ending in a period that don't end the author list: initials ("J.", "Ch.", "J.-P.")
+const INITIAL_PATTERN = /^(?:\p{Lu}\p{Ll}?|\p{Lu}\.-\p{Lu})$/u;
+
+// BibTeX field holding the venue, per entry type
+const BIBTEX_VENUE_FIELD: Record<ReferenceKind, string> = {
+  article: 'journal',
+  inproceedings: 'booktitle',
+  book: 'publisher',
+  thesis: 'school',
+  report: 'institution',
+  misc: 'howpublished',
+};
+const BIBTEX_TYPE: Record<ReferenceKind, string> = {
+  article: 'article',
+  inproceedings: 'inproceedings',
+  book: 'book',
+  thesis: 'phdthesis',
+  report: 'techreport',
+  misc: 'misc',
+};
+const CSL_TYPE: Record<ReferenceKind, string> = {
+  article: 'article-journal',
+  inproceedings: 'paper-conference',
+  book: 'book',
+  thesis: 'thesis',
+  report: 'report',
+  misc: 'article',
+};
+
+/**
+ * Guesses authors, title, venue and year of a bibliography entry. Handles the
+ * common numeric (IEEE, ACM), author-year (APA, Chicago) and LNCS styles;
+ * fields that can't be found are left null.
+ */
+export function parseReference(text: string, label: string | null = null): ParsedReference {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  const year = findYear(clean);
+
+  let authorPart = '';
+  let title: string | null = null;
+  let venuePart = '';
+
+  const quoted = QUOTED_TITLE_PATTERN.exec(clean);
+  const parenYear = PAREN_YEAR_PATTERN.exec(clean);
+  if (quoted) {
+    // IEEE: A. Smith and B. Jones, "Title," in Venue, 2020.
+    authorPart = clean.slice(0, quoted.index);
+    title = quoted[1]!;
+    venuePart = clean.slice(quoted.index + quoted[0].length);
+  } else {
+    let rest: string;
+    if (parenYear && parenYear.index < clean.length * 0.6) {
+      // APA: Smith, J., & Doe, A. (2020). Title. Venue.
+      authorPart = clean.slice(0, parenYear.index);
+      rest = clean.slice(parenYear.index + parenYear[0].length);
+    } else {
+      const authorsEnd = findAuthorsEnd(clean);
+      authorPart = clean.slice(0, authorsEnd);
+      rest = clean.slice(authorsEnd);
+    }
+    // The title is the next sentence, the venue follows it
+    const titleMatch = /^(.+?[.?!])(?:\s+|$)(.*)$/.exec(rest.trim());
+    if (titleMatch) {
+      title = titleMatch[1]!;
+      venuePart = titleMatch[2]!;
+    } else {
+      title = rest.trim() || null;
+    }
+  }
+
+  venuePart = trimPunctuation(venuePart);
+  const kind = guessKind(venuePart);
+  return {
+    label,
+    text: clean,
+    kind,
+    authors: parseAuthors(authorPart),
+    title: title ? trimPunctuation(title) || null : null,
+    venue: cleanVenue(venuePart, year),
+    year,
+  };
+}
+
+// --- Field Extraction ---
+function findYear(text: string): string | null {
+  const parenYear = PAREN_YEAR_PATTERN.exec(text);
+  if (parenYear) return parenYear[1]!.slice(0, 4);
+  // Otherwise the last year-like number; earlier ones are often part of venue names
+  const years = text.match(YEAR_PATTERN);
+  return years ? years[years.length - 1]!.slice(0, 4) : null;
+}
+
+// Offset after the author list: the first colon (LNCS) or period that doesn't end an initial
+function findAuthorsEnd(text: string): number {
+  const separators = /([.:])\s+/g;
+  let match: RegExpExecArray | null;
+  while ((match = separators.exec(text))) {
+    if (match[1] === ':') return match.index + match[0].length;
+    const word = /(\S+)$/.exec(text.slice(0, match.index))?.[1] ?? '';
+    if (INITIAL_PATTERN.test(word.replace(/^[(,]+/, ''))) continue;
+    return match.index + match[0].length;
+  }
+  return 0;
+}
+
+function parseAuthors(authorPart: string): ReferenceAuthor[] {
+  const list = authorPart
+    .replace(/,?\s+et\s+al\.?/i, '')
+    .replace(/\s*&\s*/g, ' and ')
+    .replace(/[\s.,;:]+$/, '')
+    .trim();
+  if (!list) return [];
+
+  // "Smith, J., Jones, B." lists family names first, so split after the initials
+  const familyFirst = /^[^,\s]+(?:\s[^,\s]+)?,\s*(?:\p{Lu}\.\s*-?)+(?:,|$|\s+and\s)/u.test(list);
+  const names = familyFirst
+    ? list.split(/(?<=\.)\s*,\s*(?:and\s+)?|\s+and\s+/)
+    : list.split(/\s*,\s*(?:and\s+)?|\s+and\s+/);
+
+  return names
+    .map(name => name.replace(/^and\s+/, '').trim())
+    .filter(name => name.length > 1)
+    .map(name => {
+      const comma = name.indexOf(',');
+      if (comma >= 0) {
+        return { family: name.slice(0, comma).trim(), given: name.slice(comma + 1).trim() };
+      }
+      const parts = name.split(' ');
+      const family = parts.pop()!;
+      return { family, given: parts.join(' ') };
+    });
+}
+
+function guessKind(venuePart: string): ReferenceKind {
+  if (/thesis|dissertation/i.test(venuePart)) return 'thesis';
+  if (/technical report|tech\.\s*rep/i.test(venuePart)) return 'report';
+  if (/^in\b|proc\.|proceedings|conference|workshop|symposium/i.test(venuePart)) return 'inproceedings';
+  if (/arxiv|preprint/i.test(venuePart)) return 'misc';
+  if (/journal|transactions|trans\.|letters|review|magazine|annals|\d+\s*\(\d+\)|vol\./i.test(venuePart)) return 'article';
+  if (/press|publishers?\b|springer|wiley|elsevier/i.test(venuePart)) return 'book';
+  return 'misc';
+}
+
+// Drops the "In" prefix, the year and page ranges from the venue sentence
+function cleanVenue(venuePart: string, year: string | null): string | null {
+  let venue = venuePart.replace(/^in:?\s+/i, '');
+  if (year) {
+    const yearIndex = venue.indexOf(year);
+    if (yearIndex > 0) venue = venue.slice(0, yearIndex);
+  }
+  venue = venue.replace(/,?\s*(?:pages\s+|pp?\.\s*)?\d+\s*[-–]\s*\d+.*$/, '');
+  return trimPunctuation(venue) || null;
+}
+
+function trimPunctuation(text: string): string {
+  return text.replace(/^[\s,.;:]+|[\s,.;:(]+$/g, '');
+}
+
+// --- Export Formats ---
+/**
+ * Formats references as BibTeX with citation keys like "smith2020attention".
+ */
+export function toBibTeX(references: ParsedReference[]): string {
+  const keys = citationKeys(references);
+  return references.map((reference, index) => {
+    const fields: Array<[string, string | null]> = [
+      ['author', reference.authors.map(author => author.given ? `${author.family}, ${author.given}` : author.family).join(' and ') || null],
+      ['title', reference.title],
+      [BIBTEX_VENUE_FIELD[reference.kind], reference.venue],
+      ['year', reference.year],
+      // Keep the raw text so nothing is lost when the guess is wrong
+      ['note', reference.title ? null : reference.text],
+    ];
+    const body = fields
+      .filter((field): field is [string, string] => !!field[1])
+      .map(([name, value]) => `  ${name} = {${escapeBibTeX(value)}}`)
+      .join(',\n');
+    return `@${BIBTEX_TYPE[reference.kind]}{${keys[index]},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+}
+
+/**
+ * Converts references to CSL-JSON items, as read by Zotero, Pandoc and most
+ * citation managers.
+ */
+export function toCslJson(references: ParsedReference[]): object[] {
+  const keys = citationKeys(references);
+  return references.map((reference, index) => ({
+    id: keys[index],
+    type: CSL_TYPE[reference.kind],
+    title: reference.title ?? reference.text,
+    ...(reference.authors.length > 0 ? { author: reference.authors.map(({ family, given }) => ({ family, given })) } : {}),
+    ...(reference.venue ? { [reference.kind === 'book' ? 'publisher' : 'container-title']: reference.venue } : {}),
+    ...(reference.year ? { issued: { 'date-parts': [[Number(reference.year)]] } } : {}),
+  }));
+}
+
+function citationKeys(references: ParsedReference[]): string[] {
+  const used = new Map<string, number>(); // base key -> number of references using it
+  const keys = new Set<string>();
+  return references.map((reference, index) => {
+    const family = toKeyPart(reference.authors[0]?.family ?? '');
+    const titleWord = toKeyPart((reference.title ?? '').split(' ').find(word => word.length > 3) ?? '');
+    const base = family || titleWord ? `${family}${reference.year ?? ''}${titleWord}` : `ref${index + 1}`;
+    // Disambiguate repeated keys with a letter suffix: smith2020, smith2020b, ..., smith2020z, smith2020aa, ...
+    let count = used.get(base) ?? 0;
+    let key = count === 0 ? base : `${base}${letterSuffix(count)}`;
+    // A suffixed key may coincide with another reference's base key
+    while (keys.has(key)) key = `${base}${letterSuffix(++count)}`;
+    used.set(base, count + 1);
+    keys.add(key);
+    return key;
+  });
+}
+
+// 0 -> "a", 25 -> "z", 26 -> "aa", 27 -> "ab", ...
+function letterSuffix(index: number): string {
+  let suffix = '';
+  for (let rest = index + 1; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    suffix = String.fromCharCode(97 + (rest - 1) % 26) + suffix;
+  }
+  return suffix;
+}
+
+function toKeyPart(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function escapeBibTeX(value: string): string {
+  return value.replace(/([&%$#_])/g, '\\$1').replace(/[{}]/g, '');
+}
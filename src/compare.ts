@@ -0,0 +1,535 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { resolveDestination, type PdfDestination } from './destinations';
+import { getDisplayTitle } from './documentInfo';
+import type { LibrarySource } from './libraryStore';
+import { inferOutline } from './outlineInference';
+import { getPageLines, type TextLine } from './pageText';
+import { closeSplitView, navigateSplitView, showDocumentInSplitView } from './splitView';
+import { appendLine, normalizeGlyphs } from './textCleanup';
+import { compareSections, sectionTitleKey, type DiffParagraph, type DiffSection, type DiffWord, type TextChange } from './textDiff';
+import type { ViewerPane } from './viewerPane';
+
+// --- Constants ---
+const MAX_COMPARED_PAGES = 400; // Per document, keeps reading and aligning bounded
+const WORD_GAP = 0.15; // Fraction of the font height between items that separates words, as in pageText
+const ASCENT = 0.85; // Fractions of the font height above and below the baseline that marks cover
+const DESCENT = 0.25;
+const PARAGRAPH_GAP = 0.8; // Fraction of the line height of extra space that starts a new paragraph
+const HEADING_SIZE_CHANGE = 0.15; // Fraction of the font height by which headings differ from body text
+const HEADING_TOLERANCE = 2; // PDF units a section's first paragraph may start above its destination
+const SCROLL_MARGIN = 40; // PDF units of context shown above a change
+const MAX_EXCERPT_CHARS = 240;
+const PAGE_NUMBER_LINE = /^(?:page\s+)?\d{1,4}(?:\s*(?:of|\/)\s*\d{1,4})?$/i;
+const SENTENCE_END_PATTERN = /[.!?:]["'”’)\]]?$/;
+
+// --- Type Aliases ---
+export type CompareOptions = {
+  primaryPane: ViewerPane;
+  getDocument: () => PDFDocumentProxy | null;
+  getSource: () => LibrarySource | null;
+  setStatus: (message: string) => void;
+  showCompareView: () => void;
+  elements: {
+    compareButton: HTMLButtonElement;
+    changesList: HTMLElement;
+    previousChangeButton: HTMLButtonElement;
+    nextChangeButton: HTMLButtonElement;
+  };
+};
+
+// The current document is the older version, shown on the left; the other one on the right
+type CompareSide = 'old' | 'new';
+
+type PositionedParagraph = DiffParagraph & {
+  pageIndex: number;
+  top: number; // PDF y-coordinate of the top of its first line
+};
+
+// An outline item, from the document's bookmarks or inferred from its headings
+type OutlineEntry = {
+  title: string;
+  dest: PdfDestination | null;
+  items: OutlineEntry[];
+};
+
+type SectionHeading = {
+  title: string;
+  pageIndex: number;
+  top: number | null; // Null when the destination is the whole page
+};
+
+// Rectangle marked on a page, in PDF coordinates
+type ChangeMark = {
+  changeIndex: number;
+  rect: [number, number, number, number];
+};
+
+// --- Module State ---
+let options: CompareOptions | null = null;
+let isAwaitingDocument = false; // The next opened document becomes the other version
+let oldDocument: PDFDocumentProxy | null = null;
+let newDocument: PDFDocumentProxy | null = null; // Opened for comparing and destroyed when it ends
+let secondaryPane: ViewerPane | null = null;
+const markedPanes = new WeakSet<ViewerPane>(); // Panes whose page renders redraw the marks
+let changes: TextChange[] = [];
+let marks: Record<CompareSide, Map<number, ChangeMark[]>> = { old: new Map(), new: new Map() }; // pageIndex -> marks
+let currentChange = -1;
+let compareGeneration = 0; // Incremented on reset so a running comparison can bail out
+
+/**
+ * Wires compare mode: another version of the current document is shown in the
+ * split view, with deletions marked on the left, insertions on the right and
+ * a list of the changes that scrolls both to the same spot.
+ */
+export function initCompare(compareOptions: CompareOptions) {
+  options = compareOptions;
+  const { primaryPane, elements } = compareOptions;
+
+  elements.compareButton.addEventListener('click', () => {
+    if (isAwaitingDocument || newDocument) {
+      resetCompare();
+      compareOptions.setStatus('Compare mode closed.');
+    } else {
+      awaitDocument();
+    }
+  });
+  elements.changesList.addEventListener('click', (event) => {
+    const item = (event.target as Element).closest<HTMLElement>('.changeItem');
+    if (item) showChange(Number(item.dataset.changeIndex));
+  });
+  elements.previousChangeButton.addEventListener('click', () => showChange(Math.max(currentChange - 1, 0)));
+  elements.nextChangeButton.addEventListener('click', () => showChange(Math.min(currentChange + 1, changes.length - 1)));
+
+  attachMarks(primaryPane, 'old');
+  renderEmptyList();
+}
+
+/**
+ * Whether compare mode waits for the other version. The document opened next
+ * should then be passed to compareWith instead of getting a tab.
+ */
+export function isAwaitingComparison(): boolean {
+  return isAwaitingDocument;
+}
+
+/**
+ * Compares the current document with `pdfDocument`, another version of it.
+ * Compare mode owns `pdfDocument` from now on and destroys it when it ends.
+ * Resolves to false if it was not shown, e.g. because it is the current document.
+ */
+export async function compareWith(pdfDocument: PDFDocumentProxy, source: LibrarySource): Promise<boolean> {
+  if (!options) return false;
+  const { setStatus, elements } = options;
+  const currentDocument = options.getDocument();
+  const currentSource = options.getSource();
+  if (!currentDocument || !currentSource) {
+    await pdfDocument.destroy();
+    return false;
+  }
+  if (pdfDocument.fingerprints[0] === currentDocument.fingerprints[0]) {
+    await pdfDocument.destroy();
+    setStatus('That is the document already open. Open another version to compare with.');
+    return false;
+  }
+
+  resetCompare();
+  const generation = compareGeneration;
+  oldDocument = currentDocument;
+  newDocument = pdfDocument;
+  elements.compareButton.classList.add('toggled');
+  options.showCompareView();
+  elements.changesList.innerHTML = '<em>Comparing…</em>';
+  secondaryPane = showDocumentInSplitView(pdfDocument, resetCompare);
+  if (secondaryPane) attachMarks(secondaryPane, 'new');
+
+  const oldTitle = await getDisplayTitle(currentDocument, currentSource);
+  const newTitle = await getDisplayTitle(pdfDocument, source);
+  const oldSections = await readSections(currentDocument, 'left', generation);
+  const newSections = await readSections(pdfDocument, 'right', generation);
+  if (generation !== compareGeneration) return true; // Compare mode ended or the document changed meanwhile
+
+  changes = compareSections(oldSections, newSections);
+  collectMarks();
+  renderChangeList(oldTitle, newTitle);
+  renderAllMarks();
+  const isTruncated = Math.max(currentDocument.numPages, pdfDocument.numPages) > MAX_COMPARED_PAGES;
+  setStatus(`${changes.length === 1 ? '1 change' : `${changes.length} changes`} found${isTruncated ? ` in the first ${MAX_COMPARED_PAGES} pages` : ''}.`);
+  return true;
+}
+
+/**
+ * Ends compare mode, closing the other version. Called when the current
+ * document changes and when the split view is closed.
+ */
+export function resetCompare() {
+  compareGeneration++;
+  isAwaitingDocument = false;
+  changes = [];
+  marks = { old: new Map(), new: new Map() };
+  currentChange = -1;
+  oldDocument = null;
+  for (const pane of [options?.primaryPane, secondaryPane]) {
+    pane?.container.querySelectorAll('.compareLayer').forEach(layer => layer.remove());
+  }
+  if (options) {
+    options.elements.compareButton.classList.remove('toggled');
+    renderEmptyList();
+  }
+
+  const comparedDocument = newDocument;
+  newDocument = null;
+  if (comparedDocument) {
+    closeSplitView(); // Calls back here, with nothing left to reset
+    comparedDocument.destroy();
+  }
+}
+
+function awaitDocument() {
+  if (!options) return;
+  if (!options.getDocument()) {
+    options.setStatus('Open a PDF first.');
+    return;
+  }
+  isAwaitingDocument = true;
+  options.elements.compareButton.classList.add('toggled');
+  options.showCompareView();
+  options.elements.changesList.innerHTML =
+    '<em>Open the other version to compare with: choose a file, enter a URL, drop a PDF or pick a recent document.</em>';
+  options.setStatus('Open the version to compare with.');
+}
+
+// --- Reading ---
+// The document's text as paragraphs of words, grouped into its outline sections
+async function readSections(pdfDocument: PDFDocumentProxy, side: string, generation: number): Promise<DiffSection[]> {
+  const pageCount = Math.min(pdfDocument.numPages, MAX_COMPARED_PAGES);
+  const paragraphs: PositionedParagraph[] = [];
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    options?.setStatus(`Comparing: reading page ${pageIndex + 1} of ${pageCount} on the ${side}…`);
+    try {
+      const { lines } = await getPageLines(pdfDocument, pageIndex);
+      paragraphs.push(...splitParagraphs(lines, pageIndex));
+    } catch (error) {
+      console.warn(`Could not read text of page ${pageIndex + 1}:`, error);
+    }
+    if (generation !== compareGeneration) return [];
+  }
+  return groupSections(paragraphs, await getSectionHeadings(pdfDocument));
+}
+
+// Lines of a page grouped into paragraphs. Each page starts a new paragraph;
+// paragraphs split differently by a page break are still compared word by word.
+function splitParagraphs(lines: TextLine[], pageIndex: number): PositionedParagraph[] {
+  const paragraphs: PositionedParagraph[] = [];
+  let previous: TextLine | null = null;
+  let rightEdge = 0; // Right margin of the current paragraph, to spot short last lines
+  for (const line of lines) {
+    if (PAGE_NUMBER_LINE.test(line.text.trim())) continue;
+    const words = lineWords(line, pageIndex);
+    if (words.length === 0) continue;
+
+    const paragraph = paragraphs[paragraphs.length - 1];
+    if (!paragraph || !previous || startsParagraph(previous, line, rightEdge)) {
+      paragraphs.push({ words, pageIndex, top: line.y + line.height });
+      rightEdge = 0;
+    } else {
+      // Rejoin words hyphenated at the line break like copied text does
+      const lastWord = paragraph.words[paragraph.words.length - 1]!;
+      const firstWord = words[0]!;
+      if (/\p{L}-$/u.test(lastWord.text) && /^\p{L}/u.test(firstWord.text)) {
+        lastWord.text = appendLine(lastWord.text, firstWord.text);
+        lastWord.rects.push(...firstWord.rects);
+        words.shift();
+      }
+      paragraph.words.push(...words);
+    }
+    rightEdge = Math.max(rightEdge, line.x + line.width);
+    previous = line;
+  }
+  return paragraphs;
+}
+
+// A paragraph starts after a visible gap, in another column, at a change of
+// font size, or after a sentence end followed by an indent or a short line
+function startsParagraph(previous: TextLine, line: TextLine, rightEdge: number): boolean {
+  const height = Math.max(previous.height, line.height);
+  const advance = previous.y - line.y; // PDF y grows upwards
+  if (advance <= 0 || advance > height * (1 + PARAGRAPH_GAP)) return true;
+  if (Math.abs(line.height - previous.height) > height * HEADING_SIZE_CHANGE) return true;
+  if (!SENTENCE_END_PATTERN.test(previous.text.trim())) return false;
+  const isIndented = line.x > previous.x + line.height;
+  const endsShort = previous.x + previous.width < rightEdge - 2 * height;
+  return isIndented || endsShort;
+}
+
+// The words of a line with where they are displayed. Items closer together
+// than a word gap continue the same word, as pageText joins them.
+function lineWords(line: TextLine, pageIndex: number): DiffWord[] {
+  const words: DiffWord[] = [];
+  let word: DiffWord | null = null;
+  let previousEnd = -Infinity;
+
+  for (const item of line.items) {
+    const x = item.transform[4];
+    const y = item.transform[5];
+    const height = item.height || Math.abs(item.transform[3]);
+    if (x - previousEnd > height * WORD_GAP) word = null;
+    previousEnd = x + item.width;
+    // Glyph widths aren't known here, so characters share the item's width evenly
+    const charWidth = item.str.length > 0 ? item.width / item.str.length : 0;
+
+    for (const match of item.str.matchAll(/\S+|\s+/g)) {
+      if (/^\s/.test(match[0])) {
+        word = null;
+        continue;
+      }
+      const left = x + match.index * charWidth;
+      const right = left + match[0].length * charWidth;
+      const lastRect = word?.rects[word.rects.length - 1];
+      if (word && lastRect) {
+        word.text += match[0];
+        lastRect[2] = Math.max(lastRect[2], right);
+        lastRect[3] = Math.max(lastRect[3], y + height * ASCENT);
+      } else {
+        word = { text: match[0], pageIndex, rects: [[left, y - height * DESCENT, right, y + height * ASCENT]] };
+        words.push(word);
+      }
+    }
+  }
+
+  for (const w of words) w.text = normalizeGlyphs(w.text).replace(/\s+/g, '');
+  return words.filter(w => w.text.length > 0);
+}
+
+// --- Sections ---
+async function getSectionHeadings(pdfDocument: PDFDocumentProxy): Promise<SectionHeading[]> {
+  let outline: OutlineEntry[] = [];
+  try {
+    outline = ((await pdfDocument.getOutline()) ?? []) as OutlineEntry[];
+    if (outline.length === 0) outline = await inferOutline(pdfDocument);
+  } catch (error) {
+    console.warn("Could not read the outline, comparing without sections:", error);
+  }
+
+  const headings: SectionHeading[] = [];
+  const collect = async (entries: OutlineEntry[]) => {
+    for (const entry of entries) {
+      if (entry.dest) {
+        try {
+          const resolved = await resolveDestination(pdfDocument, entry.dest);
+          if (resolved) headings.push({ title: entry.title, pageIndex: resolved.pageIndex, top: resolved.top });
+        } catch (error) {
+          console.warn("Could not resolve destination for:", entry.title, error);
+        }
+      }
+      await collect(entry.items);
+    }
+  };
+  await collect(outline);
+  // Outline order is document order within a page; sort pages in case items are out of order
+  return headings.sort((a, b) => a.pageIndex - b.pageIndex);
+}
+
+function groupSections(paragraphs: PositionedParagraph[], headings: SectionHeading[]): DiffSection[] {
+  const sectionStarts = new Map<number, string>(); // Paragraph index -> section title
+  let from = 0;
+  for (const heading of headings) {
+    const start = findSectionStart(paragraphs, from, heading);
+    if (start === null) continue;
+    sectionStarts.set(start, heading.title);
+    from = start + 1;
+  }
+
+  const sections: DiffSection[] = [{ title: null, paragraphs: [] }];
+  paragraphs.forEach((paragraph, index) => {
+    const title = sectionStarts.get(index);
+    if (title !== undefined) sections.push({ title, paragraphs: [] });
+    sections[sections.length - 1]!.paragraphs.push(paragraph);
+  });
+  return sections;
+}
+
+// The paragraph a section starts with: the one on its page that begins with
+// its title, or else the first one at or below its destination
+function findSectionStart(paragraphs: PositionedParagraph[], from: number, heading: SectionHeading): number | null {
+  const key = sectionTitleKey(heading.title);
+  let fallback: number | null = null;
+  for (let index = from; index < paragraphs.length; index++) {
+    const paragraph = paragraphs[index]!;
+    if (paragraph.pageIndex < heading.pageIndex) continue;
+    if (paragraph.pageIndex > heading.pageIndex) return fallback ?? index;
+
+    const text = sectionTitleKey(paragraph.words.slice(0, 12).map(word => word.text).join(' '));
+    if (key && (text === key || text.startsWith(`${key} `))) return index;
+    if (fallback === null && (heading.top === null || paragraph.top <= heading.top + HEADING_TOLERANCE)) fallback = index;
+  }
+  return fallback;
+}
+
+// --- Marks ---
+// Merges the rectangles of neighbouring words on a line, so a changed phrase is one mark
+function collectMarks() {
+  marks = { old: new Map(), new: new Map() };
+  changes.forEach((change, changeIndex) => {
+    addMarks(marks.old, change.deleted, changeIndex);
+    addMarks(marks.new, change.inserted, changeIndex);
+  });
+}
+
+function addMarks(pageMarks: Map<number, ChangeMark[]>, words: DiffWord[], changeIndex: number) {
+  for (const word of words) {
+    let list = pageMarks.get(word.pageIndex);
+    if (!list) {
+      list = [];
+      pageMarks.set(word.pageIndex, list);
+    }
+    for (const rect of word.rects) {
+      const last = list[list.length - 1];
+      const height = rect[3] - rect[1];
+      if (last && last.changeIndex === changeIndex && Math.abs(last.rect[1] - rect[1]) < height / 2 &&
+        rect[0] >= last.rect[0] && rect[0] - last.rect[2] < height) {
+        last.rect[2] = Math.max(last.rect[2], rect[2]);
+        last.rect[3] = Math.max(last.rect[3], rect[3]);
+      } else {
+        list.push({ changeIndex, rect: [...rect] });
+      }
+    }
+  }
+}
+
+function attachMarks(pane: ViewerPane, side: CompareSide) {
+  if (markedPanes.has(pane)) return;
+  markedPanes.add(pane);
+  // pdf.js clears foreign page children whenever a page is re-rendered (e.g. on zoom)
+  const render = (evt: { pageNumber: number }) => renderPageMarks(pane, side, evt.pageNumber - 1);
+  pane.eventBus.on('pagerendered', render);
+  pane.eventBus.on('textlayerrendered', render);
+}
+
+function renderAllMarks() {
+  if (!options) return;
+  for (const [pane, side] of [[options.primaryPane, 'old'], [secondaryPane, 'new']] as const) {
+    if (!pane) continue;
+    for (let i = 0; i < pane.pdfViewer.pagesCount; i++) renderPageMarks(pane, side, i);
+  }
+}
+
+function renderPageMarks(pane: ViewerPane, side: CompareSide, pageIndex: number) {
+  const pageView = pane.pdfViewer.getPageView(pageIndex);
+  const pageDiv: HTMLElement | undefined = pageView?.div;
+  const viewport = pageView?.viewport;
+  if (!pageDiv || !viewport) return;
+
+  pageDiv.querySelector('.compareLayer')?.remove();
+  const comparedDocument = side === 'old' ? oldDocument : newDocument;
+  const pageMarks = marks[side].get(pageIndex);
+  if (!pageMarks || pane.pdfViewer.pdfDocument !== comparedDocument) return;
+
+  const layer = document.createElement('div');
+  layer.className = 'compareLayer';
+  for (const { changeIndex, rect } of pageMarks) {
+    // Percentages keep marks aligned while pdf.js CSS-scales pages during zoom
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(rect);
+    const mark = document.createElement('div');
+    mark.className = `compareMark ${side === 'old' ? 'deleted' : 'inserted'}`;
+    mark.classList.toggle('current', changeIndex === currentChange);
+    mark.dataset.changeIndex = String(changeIndex);
+    mark.style.left = `${(Math.min(x1, x2) / viewport.width) * 100}%`;
+    mark.style.top = `${(Math.min(y1, y2) / viewport.height) * 100}%`;
+    mark.style.width = `${(Math.abs(x2 - x1) / viewport.width) * 100}%`;
+    mark.style.height = `${(Math.abs(y2 - y1) / viewport.height) * 100}%`;
+    layer.appendChild(mark);
+  }
+  // Below the text layer so text stays selectable on top of the marks
+  pageDiv.insertBefore(layer, pageDiv.querySelector('.textLayer'));
+}
+
+// --- Changes List ---
+function renderEmptyList() {
+  if (!options) return;
+  options.elements.changesList.innerHTML =
+    '<em>Click Compare, then open another version of this document to see what changed.</em>';
+}
+
+function renderChangeList(oldTitle: string, newTitle: string) {
+  if (!options) return;
+  const { changesList } = options.elements;
+  changesList.innerHTML = '';
+
+  const summary = document.createElement('div');
+  summary.className = 'compareSummary';
+  summary.textContent = `${changes.length === 1 ? '1 change' : `${changes.length} changes`} from “${oldTitle}” (left) to “${newTitle}” (right)`;
+  changesList.appendChild(summary);
+  if (changes.length === 0) {
+    changesList.insertAdjacentHTML('beforeend', '<em>No differences in the text.</em>');
+    return;
+  }
+
+  const list = document.createElement('ul');
+  list.className = 'changeList';
+  changes.forEach((change, index) => list.appendChild(createChangeItem(change, index)));
+  changesList.appendChild(list);
+}
+
+function createChangeItem(change: TextChange, index: number): HTMLLIElement {
+  const li = document.createElement('li');
+  li.className = 'changeItem';
+  li.dataset.changeIndex = String(index);
+
+  const header = document.createElement('div');
+  header.className = 'changeHeader';
+  const pages = document.createElement('span');
+  const pageOf = (word: DiffWord | null) => (word ? String(word.pageIndex + 1) : '–');
+  pages.textContent = `p. ${pageOf(change.oldWord)} → ${pageOf(change.newWord)}`;
+  header.appendChild(pages);
+  if (change.section) {
+    const section = document.createElement('span');
+    section.className = 'changeSection';
+    section.textContent = change.section;
+    header.appendChild(section);
+  }
+  li.appendChild(header);
+
+  if (change.deleted.length > 0) li.appendChild(createExcerpt('del', change.oldText));
+  if (change.inserted.length > 0) li.appendChild(createExcerpt('ins', change.newText));
+  return li;
+}
+
+function createExcerpt(tagName: 'del' | 'ins', text: string): HTMLElement {
+  const excerpt = document.createElement(tagName);
+  excerpt.className = 'changeExcerpt';
+  excerpt.textContent = text.length > MAX_EXCERPT_CHARS ? `${text.slice(0, MAX_EXCERPT_CHARS)}…` : text;
+  return excerpt;
+}
+
+// --- Navigation ---
+// Selects a change and scrolls both versions to it
+function showChange(index: number) {
+  const change = changes[index];
+  if (!options || !change) return;
+  currentChange = index;
+
+  for (const item of options.elements.changesList.querySelectorAll<HTMLElement>('.changeItem')) {
+    const isCurrent = item.dataset.changeIndex === String(index);
+    item.classList.toggle('active', isCurrent);
+    if (isCurrent) item.scrollIntoView({ block: 'nearest' });
+  }
+  for (const pane of [options.primaryPane, secondaryPane]) {
+    pane?.container.querySelectorAll<HTMLElement>('.compareMark').forEach(mark => {
+      mark.classList.toggle('current', mark.dataset.changeIndex === String(index));
+    });
+  }
+
+  scrollToWord(options.primaryPane, change.oldWord);
+  navigateSplitView(pane => scrollToWord(pane, change.newWord));
+  options.setStatus(`Change ${index + 1} of ${changes.length}`);
+}
+
+function scrollToWord(pane: ViewerPane, word: DiffWord | null) {
+  const rect = word?.rects[0];
+  if (!word || !rect) return;
+  pane.pdfViewer.scrollPageIntoView({
+    pageNumber: word.pageIndex + 1,
+    destArray: [null, { name: 'XYZ' }, null, rect[3] + SCROLL_MARGIN, null],
+    allowNegativeOffset: true,
+  });
+}
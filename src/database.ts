@@ -0,0 +1,74 @@
+// --- Constants ---
+const DB_NAME = 'acareader';
+const DB_VERSION = 2;
+
+// Object store names
+export const ANNOTATION_STORE = 'annotations';
+export const LIBRARY_STORE = 'library';
+export const LIBRARY_FILE_STORE = 'libraryFiles';
+
+// Index names
+export const FINGERPRINT_INDEX = 'fingerprint';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      let isBlocked = false;
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Version 1: annotations keyed by id, looked up by document fingerprint
+        if (!db.objectStoreNames.contains(ANNOTATION_STORE)) {
+          const store = db.createObjectStore(ANNOTATION_STORE, { keyPath: 'id' });
+          store.createIndex(FINGERPRINT_INDEX, 'fingerprint', { unique: false });
+        }
+        // Version 2: recent documents library and cached file bytes, keyed by fingerprint
+        if (!db.objectStoreNames.contains(LIBRARY_STORE)) {
+          db.createObjectStore(LIBRARY_STORE, { keyPath: 'fingerprint' });
+        }
+        if (!db.objectStoreNames.contains(LIBRARY_FILE_STORE)) {
+          db.createObjectStore(LIBRARY_FILE_STORE);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (isBlocked) {
+          // Opened after the blocking tab closed, but the caller already gave up
+          db.close();
+          return;
+        }
+        // Let another tab upgrade the schema instead of blocking it; this tab reopens on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // Another tab still holds a connection with the old schema open
+      request.onblocked = () => {
+        isBlocked = true;
+        reject(new Error('The database upgrade is blocked by another open tab of this viewer. Close it and reload.'));
+      };
+    });
+    // Allow a later retry if opening failed (e.g. private browsing restrictions)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs `operation` against `storeName` and resolves with the request's result
+ * once its transaction completes.
+ */
+export function runRequest<T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  }));
+}
@@ -0,0 +1,97 @@
+import type { PageViewport, PDFDocumentProxy } from 'pdfjs-dist';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadFixture } from './__fixtures__/loadFixture';
+import { getViewportOffset, resolveDestination } from './destinations';
+
+// Pages of destinations.pdf: 600 × 800 points, rotated as named, then one with its media box at (50, 100)
+const PAGES = [
+  { prefix: 'r0', pageIndex: 0 },
+  { prefix: 'r90', pageIndex: 1 },
+  { prefix: 'r180', pageIndex: 2 },
+  { prefix: 'r270', pageIndex: 3 },
+  { prefix: 'offset', pageIndex: 4 },
+];
+
+let pdfDocument: PDFDocumentProxy;
+
+beforeAll(async () => {
+  pdfDocument = await loadFixture('destinations.pdf');
+});
+
+afterAll(async () => {
+  await pdfDocument.destroy();
+});
+
+async function getViewport(pageIndex: number, scale = 1): Promise<PageViewport> {
+  return (await pdfDocument.getPage(pageIndex + 1)).getViewport({ scale });
+}
+
+describe('resolveDestination', () => {
+  describe.each(PAGES)('on page $prefix', ({ prefix, pageIndex }) => {
+    it('reads left and top of XYZ', async () => {
+      expect(await resolveDestination(pdfDocument, `${prefix}-xyz`)).toEqual({ pageIndex, type: 'XYZ', left: 100, top: 700 });
+    });
+
+    it('reads only top of FitH', async () => {
+      expect(await resolveDestination(pdfDocument, `${prefix}-fith`)).toEqual({ pageIndex, type: 'FitH', left: null, top: 500 });
+    });
+
+    it('reads left and top of FitR', async () => {
+      expect(await resolveDestination(pdfDocument, `${prefix}-fitr`)).toEqual({ pageIndex, type: 'FitR', left: 100, top: 400 });
+    });
+
+    it('reads only left of FitV', async () => {
+      expect(await resolveDestination(pdfDocument, `${prefix}-fitv`)).toEqual({ pageIndex, type: 'FitV', left: 150, top: null });
+    });
+
+    it('leaves both unset for Fit', async () => {
+      expect(await resolveDestination(pdfDocument, `${prefix}-fit`)).toEqual({ pageIndex, type: 'Fit', left: null, top: null });
+    });
+  });
+
+  it('resolves explicit destinations like named ones', async () => {
+    const explicit = await pdfDocument.getDestination('r90-fitr');
+    expect(explicit).not.toBeNull();
+    expect(await resolveDestination(pdfDocument, explicit!)).toEqual(await resolveDestination(pdfDocument, 'r90-fitr'));
+  });
+
+  it('keeps XYZ coordinates that are null unset', async () => {
+    expect(await resolveDestination(pdfDocument, 'r0-xyz-unset')).toEqual({ pageIndex: 0, type: 'XYZ', left: null, top: null });
+  });
+
+  it('returns null for unknown names and destinations without a page', async () => {
+    expect(await resolveDestination(pdfDocument, 'missing')).toBeNull();
+    expect(await resolveDestination(pdfDocument, [null, { name: 'Fit' }])).toBeNull();
+  });
+});
+
+describe('getViewportOffset', () => {
+  // Offsets from the top of the displayed page, in pixels at scale 1, per destination of PAGES.
+  // Rotated by 90° the PDF x-axis runs down the page, by 270° up; by 180° the y-axis runs down.
+  const EXPECTED_OFFSETS: Record<string, Record<string, number | null>> = {
+    r0: { xyz: 100, fith: 300, fitr: 400, fitv: 0, fit: null },
+    r90: { xyz: 100, fith: 0, fitr: 100, fitv: 150, fit: null },
+    r180: { xyz: 700, fith: 500, fitr: 400, fitv: 800, fit: null },
+    r270: { xyz: 500, fith: 600, fitr: 500, fitv: 450, fit: null },
+    offset: { xyz: 200, fith: 400, fitr: 500, fitv: 0, fit: null },
+  };
+
+  describe.each(PAGES)('on page $prefix', ({ prefix, pageIndex }) => {
+    it.each(['xyz', 'fith', 'fitr', 'fitv', 'fit'])('places %s', async (type) => {
+      const resolved = await resolveDestination(pdfDocument, `${prefix}-${type}`);
+      const viewport = await getViewport(pageIndex);
+      expect(getViewportOffset(viewport, resolved!.left, resolved!.top)).toBe(EXPECTED_OFFSETS[prefix]![type]);
+    });
+  });
+
+  it('scales with the viewport', async () => {
+    expect(getViewportOffset(await getViewport(0, 2), 100, 700)).toBe(200);
+    expect(getViewportOffset(await getViewport(3, 1.5), 100, 700)).toBe(750);
+  });
+
+  it('defaults a missing coordinate to the left or top edge in PDF space', async () => {
+    const viewport = await getViewport(0);
+    expect(getViewportOffset(viewport, null, 500)).toBe(getViewportOffset(viewport, 0, 500));
+    expect(getViewportOffset(viewport, 100, null)).toBe(0);
+  });
+});
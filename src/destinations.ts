@@ -0,0 +1,69 @@
+import type { PageViewport, PDFDocumentProxy } from 'pdfjs-dist';
+
+// --- Type Aliases ---
+// Destination as stored in outline items and link annotations:
+// either an explicit destination array or a named destination string
+export type PdfDestination = Array<any> | string;
+
+// Resolved position of a destination within the document
+export type ResolvedDestination = {
+  pageIndex: number; // 0-based page index
+  type: string | undefined; // Destination type ('XYZ', 'FitH', 'Fit', ...)
+  left: number | null; // PDF x-coordinate, if the destination specifies one
+  top: number | null; // PDF y-coordinate, if the destination specifies one
+};
+
+/**
+ * Resolves a named or explicit destination to a page index and the
+ * coordinates it points at. Returns null if the destination cannot be resolved.
+ */
+export async function resolveDestination(pdfDocument: PDFDocumentProxy, dest: PdfDestination): Promise<ResolvedDestination | null> {
+  // Resolve destination (string or array) to get page index
+  const explicitDest = typeof dest === 'string'
+    ? await pdfDocument.getDestination(dest)
+    : dest;
+
+  if (!Array.isArray(explicitDest) || !explicitDest[0] || typeof explicitDest[0] !== 'object' || explicitDest[0].num === undefined) {
+    return null;
+  }
+
+  // Get page index (0-based)
+  const pageIndex = await pdfDocument.getPageIndex(explicitDest[0]); // Get page object to resolve ref
+  let left: number | null = null;
+  let top: number | null = null;
+
+  // Coordinates are in PDF user space, where y grows upwards: a larger top is
+  // higher on the (unrotated) page. Null means the destination doesn't fix it.
+  const destType = explicitDest[1] && typeof explicitDest[1] === 'object' ? explicitDest[1].name : undefined;
+  if (destType === 'XYZ') {
+    // [pageRef, {name: 'XYZ'}, left, top, zoom]
+    left = explicitDest[2] as number | null;
+    top = explicitDest[3] as number | null;
+  } else if (destType === 'FitV' || destType === 'FitBV') {
+    // [pageRef, {name: 'FitV'}, left], the whole page height is shown
+    left = explicitDest[2] as number | null;
+  } else if (destType === 'FitH' || destType === 'FitBH') {
+    // [pageRef, {name: 'FitH'}, top]
+    top = explicitDest[2] as number | null;
+  } else if (destType === 'FitR') {
+    // [pageRef, {name: 'FitR'}, left, bottom, right, top]
+    left = explicitDest[2] as number | null;
+    top = explicitDest[5] as number | null;
+  }
+  // Fit, FitB and unknown types show the whole page, leaving both null
+
+  return { pageIndex, type: destType, left, top };
+}
+
+/**
+ * Returns how far from the top of its page, in `viewport` pixels, a position
+ * given in PDF coordinates appears. Accounts for page rotation, where the PDF
+ * x-axis runs vertically. Returns null if neither coordinate is known, i.e. the
+ * position is the page as a whole.
+ */
+export function getViewportOffset(viewport: PageViewport, left: number | null, top: number | null): number | null {
+  if (left === null && top === null) return null;
+  // A missing coordinate defaults to the page's left or top edge, as in pdf.js navigation
+  const [xMin, , , yMax] = viewport.viewBox as [number, number, number, number];
+  return viewport.convertToViewportPoint(left ?? xMin, top ?? yMax)[1] as number;
+}
@@ -0,0 +1,61 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { LibrarySource } from './libraryStore';
+
+/**
+ * Returns the title from the document's info dictionary, or null if it has none.
+ */
+export async function getDocumentTitle(pdfDocument: PDFDocumentProxy): Promise<string | null> {
+  try {
+    const { info } = await pdfDocument.getMetadata();
+    const title = (info as { Title?: string } | null)?.Title?.trim();
+    return title || null;
+  } catch (error) {
+    console.warn("Could not read document metadata:", error);
+    return null;
+  }
+}
+
+/**
+ * Returns the document title, falling back to the file name or the last URL
+ * path segment when the PDF has none.
+ */
+export async function getDisplayTitle(pdfDocument: PDFDocumentProxy, source: LibrarySource): Promise<string> {
+  const title = await getDocumentTitle(pdfDocument);
+  if (title) return title;
+  if (source.type === 'file') return source.name;
+  try {
+    return decodeURIComponent(new URL(source.url).pathname.split('/').pop() || '') || source.url;
+  } catch {
+    return source.url;
+  }
+}
+
+// Page labels per document, null when the document defines none
+const pageLabelCache = new WeakMap<PDFDocumentProxy, Promise<string[] | null>>();
+
+/**
+ * Returns the labels printed on the pages ("iv", "12", "A-3"), or null if the
+ * document defines none or they are just the page numbers.
+ */
+export function getPageLabels(pdfDocument: PDFDocumentProxy): Promise<string[] | null> {
+  let labels = pageLabelCache.get(pdfDocument);
+  if (!labels) {
+    labels = pdfDocument.getPageLabels().then(
+      pageLabels => pageLabels?.every((label, index) => label === String(index + 1)) ? null : pageLabels,
+      error => {
+        console.warn("Could not read page labels:", error);
+        return null;
+      },
+    );
+    pageLabelCache.set(pdfDocument, labels);
+  }
+  return labels;
+}
+
+/**
+ * Returns the label printed on a page, or the 1-based page number when the
+ * document defines no page labels.
+ */
+export async function getPageLabel(pdfDocument: PDFDocumentProxy, pageIndex: number): Promise<string> {
+  return (await getPageLabels(pdfDocument))?.[pageIndex] || String(pageIndex + 1);
+}
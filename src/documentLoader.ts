@@ -0,0 +1,232 @@
+import {
+  getDocument,
+  InvalidPDFException,
+  PasswordResponses,
+  ResponseException,
+  type PDFDocumentLoadingTask,
+  type PDFDocumentProxy,
+} from 'pdfjs-dist';
+
+// --- Constants ---
+const RANGE_CHUNK_SIZE = 65536 * 4; // Bytes per range request for remote documents
+
+// --- Type Aliases ---
+// Where to load a document from
+export type DocumentRequest =
+  | { type: 'file'; file: File }
+  | { type: 'url'; url: string }
+  | { type: 'data'; data: ArrayBuffer; name: string };
+
+export type OpenedDocument = {
+  pdfDocument: PDFDocumentProxy;
+  fileData?: ArrayBuffer; // Copy of the bytes of a local file, pdf.js keeps the original
+};
+
+export type DocumentLoaderOptions = {
+  setStatus: (message: string) => void;
+  elements: {
+    loadingBar: HTMLElement; // Container shown while loading
+    progressBar: HTMLElement; // Width reflects the progress
+    cancelButton: HTMLButtonElement;
+    passwordDialog: HTMLElement;
+    passwordForm: HTMLFormElement;
+    passwordMessage: HTMLElement;
+    passwordInput: HTMLInputElement;
+    passwordCancel: HTMLButtonElement;
+  };
+};
+
+// A load in progress; several can run at once when dropping multiple files
+type ActiveLoad = {
+  loaded: number;
+  total: number; // 0 while unknown
+  cancel: () => void;
+  cancelled: boolean;
+};
+
+// --- Module State ---
+let options: DocumentLoaderOptions | null = null;
+const activeLoads = new Set<ActiveLoad>();
+let passwordQueue: Promise<unknown> = Promise.resolve(); // Password prompts are shown one at a time
+let resolvePassword: ((password: string | null) => void) | null = null;
+
+/**
+ * Sets up the loading bar with its cancel button and the password prompt.
+ */
+export function initDocumentLoader(loaderOptions: DocumentLoaderOptions) {
+  options = loaderOptions;
+  const { elements } = loaderOptions;
+
+  elements.cancelButton.addEventListener('click', cancelLoading);
+
+  elements.passwordForm.addEventListener('submit', (event) => {
+    event.preventDefault();
+    closePasswordDialog(elements.passwordInput.value);
+  });
+  elements.passwordCancel.addEventListener('click', () => closePasswordDialog(null));
+  elements.passwordDialog.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') closePasswordDialog(null);
+  });
+}
+
+/**
+ * Loads a document, showing progress and asking for a password if it is
+ * encrypted. Resolves to null if the user cancelled; rejects with the pdf.js
+ * error otherwise, see `describeLoadError`.
+ */
+export async function openDocument(request: DocumentRequest): Promise<OpenedDocument | null> {
+  const load: ActiveLoad = { loaded: 0, total: 0, cancel: () => {}, cancelled: false };
+  activeLoads.add(load);
+  updateLoadingBar();
+
+  try {
+    let data: ArrayBuffer | null = null;
+    let fileData: ArrayBuffer | undefined;
+    if (request.type === 'file') {
+      data = await readFile(request.file, load);
+      if (load.cancelled) return null;
+      // pdf.js transfers the buffer to its worker, so keep a copy for the library
+      fileData = data.slice(0);
+    } else if (request.type === 'data') {
+      data = request.data;
+    }
+
+    const loadingTask = data
+      ? getDocument({ data })
+      : getDocument({
+          url: (request as { url: string }).url,
+          // Fetch only the ranges needed for the visible pages, so large
+          // documents show their first pages before the download completes.
+          // Falls back to a full download if the server doesn't support ranges.
+          rangeChunkSize: RANGE_CHUNK_SIZE,
+          disableStream: true,
+          disableAutoFetch: true,
+        });
+    load.cancel = () => { loadingTask.destroy(); };
+    if (load.cancelled) {
+      load.cancel();
+      return null;
+    }
+
+    loadingTask.onProgress = ({ loaded, total }: { loaded: number; total: number }) => {
+      load.loaded = loaded;
+      load.total = total;
+      updateLoadingBar();
+    };
+    handlePasswords(loadingTask, load);
+
+    try {
+      return { pdfDocument: await loadingTask.promise, fileData };
+    } catch (error) {
+      if (load.cancelled) return null;
+      throw error;
+    }
+  } finally {
+    activeLoads.delete(load);
+    updateLoadingBar();
+  }
+}
+
+/**
+ * Returns a message for a failed load that tells the user what went wrong.
+ */
+export function describeLoadError(error: unknown, request: DocumentRequest): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const where = request.type === 'url' ? request.url : request.type === 'file' ? request.file.name : request.name;
+
+  if (error instanceof InvalidPDFException) {
+    return `"${where}" is not a valid PDF file, or it is damaged.`;
+  }
+  if (error instanceof ResponseException) {
+    if (error.missing || error.status === 404) {
+      return `No PDF was found at ${where} (404 Not Found).`;
+    }
+    return `The server sent an unexpected response for ${where}${error.status ? ` (HTTP ${error.status})` : ''}.`;
+  }
+  // fetch() reports blocked cross-origin requests and network failures alike, without details
+  if (request.type === 'url' && /failed to fetch|networkerror|load failed|cors/i.test(message)) {
+    return `Could not download ${where}. The server may not allow this viewer to load it (CORS), or the network is unavailable.`;
+  }
+  return `Failed to load PDF: ${message}`;
+}
+
+// --- Loading ---
+function readFile(file: File, load: ActiveLoad): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (event) => {
+      load.loaded = event.loaded;
+      load.total = event.lengthComputable ? event.total : file.size;
+      updateLoadingBar();
+    };
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.onabort = () => resolve(new ArrayBuffer(0)); // Only aborted through cancel
+    load.cancel = () => reader.abort();
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+function cancelLoading() {
+  for (const load of activeLoads) {
+    load.cancelled = true;
+    load.cancel();
+  }
+  closePasswordDialog(null);
+  options?.setStatus('Loading cancelled.');
+}
+
+function updateLoadingBar() {
+  if (!options) return;
+  const { loadingBar, progressBar } = options.elements;
+  loadingBar.classList.toggle('hidden', activeLoads.size === 0);
+
+  let loaded = 0;
+  let total = 0;
+  for (const load of activeLoads) {
+    loaded += load.loaded;
+    total += load.total;
+  }
+  // Without a known size the bar pulses instead of filling
+  const isDeterminate = total > 0 && [...activeLoads].every(load => load.total > 0);
+  loadingBar.classList.toggle('indeterminate', !isDeterminate);
+  progressBar.style.width = isDeterminate ? `${Math.min(100, (loaded / total) * 100)}%` : '';
+}
+
+// --- Password Prompt ---
+function handlePasswords(loadingTask: PDFDocumentLoadingTask, load: ActiveLoad) {
+  loadingTask.onPassword = (updatePassword: (password: string) => void, reason: number) => {
+    const isRetry = reason === PasswordResponses.INCORRECT_PASSWORD;
+    passwordQueue = passwordQueue.then(async () => {
+      if (load.cancelled) return;
+      const password = await askForPassword(isRetry);
+      if (password === null) {
+        load.cancelled = true;
+        load.cancel();
+        options?.setStatus('Loading cancelled.');
+      } else {
+        updatePassword(password);
+      }
+    });
+  };
+}
+
+function askForPassword(isRetry: boolean): Promise<string | null> {
+  if (!options) return Promise.resolve(null);
+  const { passwordDialog, passwordMessage, passwordInput } = options.elements;
+  passwordMessage.textContent = isRetry
+    ? 'Incorrect password. Please try again.'
+    : 'This document is password protected. Enter the password to open it.';
+  passwordMessage.classList.toggle('error', isRetry);
+  passwordInput.value = '';
+  passwordDialog.classList.remove('hidden');
+  passwordInput.focus();
+  return new Promise(resolve => { resolvePassword = resolve; });
+}
+
+function closePasswordDialog(password: string | null) {
+  options?.elements.passwordDialog.classList.add('hidden');
+  const resolve = resolvePassword;
+  resolvePassword = null;
+  resolve?.(password);
+}
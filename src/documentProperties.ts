@@ -0,0 +1,229 @@
+import { OPS, PDFDateString, type PDFDocumentProxy } from 'pdfjs-dist';
+
+// --- Constants ---
+const MAX_FONT_SCAN_PAGES = 20; // Fonts are collected from the operator lists of the first pages
+const PAPER_SIZE_TOLERANCE = 3; // PDF points
+
+// Common paper sizes in PDF points (1/72 inch), portrait
+const PAPER_SIZES: Array<{ name: string; width: number; height: number }> = [
+  { name: 'A3', width: 842, height: 1191 },
+  { name: 'A4', width: 595, height: 842 },
+  { name: 'A5', width: 420, height: 595 },
+  { name: 'B5', width: 499, height: 709 },
+  { name: 'Letter', width: 612, height: 792 },
+  { name: 'Legal', width: 612, height: 1008 },
+  { name: 'Tabloid', width: 792, height: 1224 },
+];
+
+// --- Type Aliases ---
+export type DocumentPropertiesOptions = {
+  getDocument: () => PDFDocumentProxy | null;
+  // File name or URL the current document was opened from
+  getSource: () => string | null;
+  setStatus: (message: string) => void;
+  elements: {
+    propertiesButton: HTMLButtonElement;
+    dialog: HTMLElement;
+    propertiesList: HTMLElement; // A <dl> filled with the properties
+    closeButton: HTMLButtonElement;
+  };
+};
+
+// Fields of the document information dictionary shown in the dialog
+type DocumentInfo = {
+  Title?: string;
+  Author?: string;
+  Subject?: string;
+  Keywords?: string;
+  Creator?: string;
+  Producer?: string;
+  CreationDate?: string;
+  ModDate?: string;
+  PDFFormatVersion?: string;
+  IsLinearized?: boolean;
+};
+
+// The parts of a loaded font object the dialog reads
+type FontInfo = {
+  name?: string;
+  missingFile?: boolean;
+};
+
+// --- Module State ---
+let options: DocumentPropertiesOptions | null = null;
+let shownDocument: PDFDocumentProxy | null = null; // Document the open dialog describes
+
+/**
+ * Wires the document properties dialog: metadata, PDF version, page size and
+ * the fonts the document uses.
+ */
+export function initDocumentProperties(propertiesOptions: DocumentPropertiesOptions) {
+  options = propertiesOptions;
+  const { elements } = propertiesOptions;
+
+  elements.propertiesButton.addEventListener('click', () => {
+    showDocumentProperties().catch(error => {
+      console.error("Error reading document properties:", error);
+      propertiesOptions.setStatus('Could not read the document properties.');
+    });
+  });
+  elements.closeButton.addEventListener('click', hideDocumentProperties);
+  elements.dialog.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') hideDocumentProperties();
+  });
+  // Clicking the backdrop closes the dialog
+  elements.dialog.addEventListener('click', (event) => {
+    if (event.target === elements.dialog) hideDocumentProperties();
+  });
+}
+
+export function hideDocumentProperties() {
+  shownDocument = null;
+  options?.elements.dialog.classList.add('hidden');
+}
+
+// --- Dialog ---
+async function showDocumentProperties() {
+  if (!options) return;
+  const pdfDocument = options.getDocument();
+  if (!pdfDocument) {
+    options.setStatus('Open a PDF to see its properties.');
+    return;
+  }
+
+  const { dialog, propertiesList, closeButton } = options.elements;
+  shownDocument = pdfDocument;
+  propertiesList.innerHTML = '';
+  dialog.classList.remove('hidden');
+  closeButton.focus();
+
+  const [{ info, metadata }, { length }, firstPage] = await Promise.all([
+    pdfDocument.getMetadata(),
+    pdfDocument.getDownloadInfo(),
+    pdfDocument.getPage(1),
+  ]);
+  if (shownDocument !== pdfDocument) return; // Closed or another document meanwhile
+  const documentInfo = (info ?? {}) as DocumentInfo;
+
+  // XMP metadata lists authors separately, the info dictionary in one string
+  const creators = metadata?.get('dc:creator');
+  const authors = Array.isArray(creators) && creators.length > 0 ? creators.join('; ') : documentInfo.Author;
+
+  addProperty('Title', metadata?.get('dc:title') || documentInfo.Title);
+  addProperty('Authors', authors);
+  addProperty('Subject', documentInfo.Subject);
+  addProperty('Keywords', documentInfo.Keywords);
+  addProperty('File', options.getSource());
+  addProperty('File size', length ? formatFileSize(length) : null);
+  addProperty('Created', formatPdfDate(documentInfo.CreationDate));
+  addProperty('Modified', formatPdfDate(documentInfo.ModDate));
+  addProperty('Application', documentInfo.Creator);
+  addProperty('PDF producer', documentInfo.Producer);
+  addProperty('PDF version', documentInfo.PDFFormatVersion);
+  addProperty('Pages', String(pdfDocument.numPages));
+  addProperty('Page size', formatPageSize(firstPage.view as number[], firstPage.rotate));
+  addProperty('Fast web view', documentInfo.IsLinearized ? 'Yes' : 'No');
+
+  const fontsValue = addProperty('Fonts', 'Reading…');
+  const fonts = await collectFonts(pdfDocument);
+  if (shownDocument !== pdfDocument || !fontsValue) return;
+  fontsValue.textContent = '';
+  if (fonts.length === 0) {
+    fontsValue.textContent = 'None';
+  } else {
+    const list = document.createElement('ul');
+    list.className = 'propertiesFonts';
+    for (const font of fonts) {
+      const item = document.createElement('li');
+      item.textContent = font;
+      list.appendChild(item);
+    }
+    fontsValue.appendChild(list);
+    if (pdfDocument.numPages > MAX_FONT_SCAN_PAGES) {
+      const note = document.createElement('div');
+      note.className = 'propertiesNote';
+      note.textContent = `From the first ${MAX_FONT_SCAN_PAGES} pages`;
+      fontsValue.appendChild(note);
+    }
+  }
+}
+
+// Appends a term and its value to the list; skipped when there is no value
+function addProperty(term: string, value: string | null | undefined): HTMLElement | null {
+  if (!options || !value?.trim()) return null;
+  const dt = document.createElement('dt');
+  dt.textContent = term;
+  const dd = document.createElement('dd');
+  dd.textContent = value.trim();
+  options.elements.propertiesList.append(dt, dd);
+  return dd;
+}
+
+// --- Formatting ---
+function formatPdfDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = PDFDateString.toDateObject(value);
+  return date ? date.toLocaleString() : value;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} bytes`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Size of the first page as displayed, in millimetres and inches, with its paper name
+function formatPageSize(view: number[], rotation: number): string {
+  const [x1 = 0, y1 = 0, x2 = 0, y2 = 0] = view;
+  let width = Math.abs(x2 - x1);
+  let height = Math.abs(y2 - y1);
+  if (rotation % 180 !== 0) [width, height] = [height, width];
+
+  const millimetres = `${Math.round(width / 72 * 25.4)} × ${Math.round(height / 72 * 25.4)} mm`;
+  const inches = `${(width / 72).toFixed(2)} × ${(height / 72).toFixed(2)} in`;
+  const short = Math.min(width, height);
+  const long = Math.max(width, height);
+  const paper = PAPER_SIZES.find(size =>
+    Math.abs(size.width - short) <= PAPER_SIZE_TOLERANCE && Math.abs(size.height - long) <= PAPER_SIZE_TOLERANCE);
+  const orientation = width > height ? 'landscape' : 'portrait';
+  return `${millimetres} (${inches}, ${paper ? `${paper.name}, ` : ''}${orientation})`;
+}
+
+// --- Fonts ---
+// Font names used by the first pages, with whether they are embedded
+async function collectFonts(pdfDocument: PDFDocumentProxy): Promise<string[]> {
+  const fonts = new Map<string, string>(); // font name -> description
+  const pageCount = Math.min(pdfDocument.numPages, MAX_FONT_SCAN_PAGES);
+
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    try {
+      const page = await pdfDocument.getPage(pageNumber);
+      // Building the operator list starts loading the page's fonts into its common objects
+      const operatorList = await page.getOperatorList();
+      const loadedNames = new Set<string>();
+      operatorList.fnArray.forEach((fn, index) => {
+        const loadedName = operatorList.argsArray[index]?.[0];
+        if (fn === OPS.setFont && typeof loadedName === 'string') loadedNames.add(loadedName);
+      });
+      for (const loadedName of loadedNames) {
+        // Resolves once the font is bound, to an error message if it failed to load
+        const font: unknown = await new Promise(resolve => page.commonObjs.get(loadedName, resolve));
+        if (typeof font !== 'object' || font === null) continue;
+        const { name } = font as FontInfo;
+        if (name && !fonts.has(name)) fonts.set(name, describeFont(font as FontInfo));
+      }
+    } catch (error) {
+      console.warn(`Could not read fonts of page ${pageNumber}:`, error);
+    }
+    if (shownDocument !== pdfDocument) break;
+  }
+  return [...fonts.values()].sort((a, b) => a.localeCompare(b));
+}
+
+function describeFont(font: FontInfo): string {
+  // Subset fonts carry a six-letter prefix such as "ABCDEF+Times-Roman"
+  const isSubset = /^[A-Z]{6}\+/.test(font.name ?? '');
+  const name = (font.name ?? '').replace(/^[A-Z]{6}\+/, '');
+  const embedding = font.missingFile ? 'not embedded' : isSubset ? 'embedded subset' : 'embedded';
+  return `${name} (${embedding})`;
+}
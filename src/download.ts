@@ -0,0 +1,20 @@
+/**
+ * Turns a document title, file name or URL into a safe base name for downloads.
+ */
+export function toFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop()?.replace(/\.pdf$/i, '') ?? 'document';
+  return base.replace(/[^\w\-. ]+/g, '_').trim().slice(0, 100) || 'document';
+}
+
+/**
+ * Offers `content` to the user as a file download.
+ */
+export function downloadFile(fileName: string, content: BlobPart, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,269 @@
+/**
+ * postMessage API for running the viewer in an iframe.
+ *
+ * The embedding page sends commands to the iframe's window; the viewer replies
+ * and reports events to the parent window. Only origins on the allow-list,
+ * configured with VITE_EMBED_ALLOWED_ORIGINS (comma-separated, e.g.
+ * "https://review.example.org,https://localhost:3000"), can control the viewer
+ * or receive its events. Messages from other origins are ignored.
+ *
+ * Commands, optionally with an `id` that is echoed in the response:
+ *   { source: 'acareader', command: 'open', url: 'https://…/paper.pdf' }
+ *   { source: 'acareader', command: 'open', data: ArrayBuffer | Uint8Array, name?: 'paper.pdf' }
+ *   { source: 'acareader', command: 'goToPage', page: 12 | 'iv' }  // Page number, or label as a string
+ *   { source: 'acareader', command: 'goToDestination', dest: 'section.3' }  // Named destination
+ *   { source: 'acareader', command: 'setZoom', zoom: 1.5 | 'auto' | 'page-fit' | 'page-width' | 'page-actual' }
+ *   { source: 'acareader', command: 'search', query: 'attention', caseSensitive?, entireWord?, highlightAll? }
+ *
+ * Responses:
+ *   { source: 'acareader', type: 'response', id, ok: true }
+ *   { source: 'acareader', type: 'response', id, ok: false, error: 'message' }
+ *
+ * Events:
+ *   { source: 'acareader', type: 'event', event: 'ready', version: 1 }
+ *   { source: 'acareader', type: 'event', event: 'documentLoaded', pageCount, title, fingerprint }
+ *   { source: 'acareader', type: 'event', event: 'pageChanged', pageNumber, pageLabel }
+ *   { source: 'acareader', type: 'event', event: 'outlineItemChanged', title }  // null before the first item
+ *   { source: 'acareader', type: 'event', event: 'selectionChanged', text, pageNumber }  // text is null when cleared
+ *
+ * 'ready' is sent to every allowed origin once the viewer starts. Other events
+ * go to the parent's origin if it is allowed: the origin of the last accepted
+ * command, or before any command the origin the frame was loaded from.
+ */
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { EventBus, PDFLinkService, PDFViewer } from 'pdfjs-dist/web/pdf_viewer.mjs';
+import { getDocumentTitle } from './documentInfo';
+
+// --- Constants ---
+const MESSAGE_SOURCE = 'acareader'; // Tags messages of this protocol
+const PROTOCOL_VERSION = 1;
+const SELECTION_EVENT_DELAY_MS = 300; // Selections change on every pointer move while dragging
+const ZOOM_PRESETS = new Set(['auto', 'page-fit', 'page-width', 'page-actual']);
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 10;
+
+// --- Type Aliases ---
+export type EmbedApiOptions = {
+  allowedOrigins: string[];
+  eventBus: EventBus;
+  pdfViewer: PDFViewer;
+  linkService: PDFLinkService;
+  getDocument: () => PDFDocumentProxy | null;
+  // Open a document like the toolbar does; resolve to false if it couldn't be shown
+  openUrl: (url: string) => Promise<boolean>;
+  openFile: (file: File) => Promise<boolean>;
+  goToPage: (page: string) => boolean;
+  search: (query: string, searchOptions: { caseSensitive?: boolean; entireWord?: boolean; highlightAll?: boolean }) => void;
+  getSelectedText: () => string | null;
+};
+
+type EmbedCommand = {
+  source: typeof MESSAGE_SOURCE;
+  id?: string | number;
+  command: string;
+  [key: string]: unknown;
+};
+
+// --- Module State ---
+let options: EmbedApiOptions | null = null;
+let parentOrigin: string | null = null; // Allowed origin of the embedding page, where events go
+let selectionTimer: ReturnType<typeof setTimeout> | null = null;
+let lastSelectionText: string | null = null;
+let lastOutlineTitle: string | null = null;
+
+/**
+ * Turns the comma-separated allow-list setting into origins, skipping entries
+ * that are not http(s) origins.
+ */
+export function parseAllowedOrigins(value: string | undefined): string[] {
+  const origins: string[] = [];
+  for (const entry of (value ?? '').split(',')) {
+    if (!entry.trim()) continue;
+    try {
+      const url = new URL(entry.trim());
+      if (url.protocol === 'http:' || url.protocol === 'https:') origins.push(url.origin);
+    } catch {
+      console.warn("Ignoring invalid embed origin:", entry);
+    }
+  }
+  return origins;
+}
+
+/**
+ * Starts listening for commands from the embedding page and mirrors viewer
+ * events to it. Does nothing when the viewer isn't embedded or no origin is allowed.
+ */
+export function initEmbedApi(embedOptions: EmbedApiOptions) {
+  if (window.parent === window || embedOptions.allowedOrigins.length === 0) return;
+  options = embedOptions;
+  const { eventBus } = embedOptions;
+  parentOrigin = getEmbeddingOrigin(embedOptions.allowedOrigins);
+
+  window.addEventListener('message', (event) => {
+    if (event.source !== window.parent || !embedOptions.allowedOrigins.includes(event.origin)) return;
+    if (!isEmbedCommand(event.data)) return;
+    parentOrigin = event.origin;
+    handleCommand(event.data);
+  });
+
+  eventBus.on('pagesloaded', (evt: { pagesCount: number }) => {
+    const pdfDocument = embedOptions.getDocument();
+    if (!pdfDocument) return;
+    lastOutlineTitle = null;
+    getDocumentTitle(pdfDocument).then(title => {
+      if (pdfDocument !== options?.getDocument()) return;
+      postEvent('documentLoaded', { pageCount: evt.pagesCount, title, fingerprint: pdfDocument.fingerprints[0] ?? null });
+    });
+  });
+  eventBus.on('pagechanging', (evt: { pageNumber: number; pageLabel?: string | null }) => {
+    postEvent('pageChanged', { pageNumber: evt.pageNumber, pageLabel: evt.pageLabel ?? String(evt.pageNumber) });
+  });
+  document.addEventListener('selectionchange', scheduleSelectionEvent);
+
+  // The parent can't know our origin is ready before we tell it; only allowed origins receive this
+  for (const origin of embedOptions.allowedOrigins) {
+    window.parent.postMessage({ source: MESSAGE_SOURCE, type: 'event', event: 'ready', version: PROTOCOL_VERSION }, origin);
+  }
+}
+
+/**
+ * Reports the outline item of the section being read. Called by the outline
+ * scroll sync whenever its active item changes.
+ */
+export function reportOutlineItem(title: string | null) {
+  if (title === lastOutlineTitle) return;
+  lastOutlineTitle = title;
+  postEvent('outlineItemChanged', { title });
+}
+
+// --- Origins ---
+// The parent's origin as far as the browser tells us, if it is allowed
+function getEmbeddingOrigin(allowedOrigins: string[]): string | null {
+  const candidates = [window.location.ancestorOrigins?.[0], document.referrer];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const origin = new URL(candidate).origin;
+      if (allowedOrigins.includes(origin)) return origin;
+    } catch {
+      // Not a URL, try the next one
+    }
+  }
+  return null;
+}
+
+// --- Commands ---
+function isEmbedCommand(data: unknown): data is EmbedCommand {
+  return typeof data === 'object' && data !== null &&
+    (data as EmbedCommand).source === MESSAGE_SOURCE && typeof (data as EmbedCommand).command === 'string';
+}
+
+function handleCommand(message: EmbedCommand) {
+  runCommand(message).then(
+    () => respond(message, null),
+    error => respond(message, error instanceof Error ? error.message : String(error)),
+  );
+}
+
+async function runCommand(message: EmbedCommand) {
+  if (!options) return;
+  const { pdfViewer, linkService } = options;
+
+  switch (message.command) {
+    case 'open': {
+      const { url, data, name } = message;
+      let opened: boolean;
+      if (typeof url === 'string') {
+        if (!/^https?:\/\//i.test(url)) throw new Error('Only http and https URLs can be opened.');
+        opened = await options.openUrl(url);
+      } else if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        const fileName = typeof name === 'string' && name ? name : 'document.pdf';
+        opened = await options.openFile(new File([data as BlobPart], fileName, { type: 'application/pdf' }));
+      } else {
+        throw new Error('"open" needs a url or data.');
+      }
+      if (!opened) throw new Error('The document could not be opened.');
+      break;
+    }
+    case 'goToPage': {
+      requireDocument();
+      const { page } = message;
+      if (typeof page === 'number') {
+        // A number is always the physical page, even where a label reads the same
+        if (!Number.isInteger(page) || page < 1 || page > pdfViewer.pagesCount) {
+          throw new Error(`Page must be a whole number from 1 to ${pdfViewer.pagesCount}.`);
+        }
+        pdfViewer.currentPageNumber = page;
+      } else if (typeof page !== 'string' || !options.goToPage(page)) {
+        throw new Error(`There is no page "${String(page)}".`);
+      }
+      break;
+    }
+    case 'goToDestination': {
+      requireDocument();
+      if (typeof message.dest !== 'string') throw new Error('"goToDestination" needs a named destination.');
+      const pdfDocument = options.getDocument()!;
+      // goToDestination only logs unknown names, so check first
+      if (!(await pdfDocument.getDestination(message.dest))) throw new Error(`There is no destination "${message.dest}".`);
+      await linkService.goToDestination(message.dest);
+      break;
+    }
+    case 'setZoom': {
+      requireDocument();
+      const { zoom } = message;
+      if (typeof zoom === 'number' && zoom >= MIN_ZOOM && zoom <= MAX_ZOOM) {
+        pdfViewer.currentScale = zoom;
+      } else if (typeof zoom === 'string' && ZOOM_PRESETS.has(zoom)) {
+        pdfViewer.currentScaleValue = zoom;
+      } else {
+        throw new Error(`Zoom must be a number from ${MIN_ZOOM} to ${MAX_ZOOM} or one of: ${[...ZOOM_PRESETS].join(', ')}.`);
+      }
+      break;
+    }
+    case 'search': {
+      requireDocument();
+      const { query, caseSensitive, entireWord, highlightAll } = message;
+      if (typeof query !== 'string') throw new Error('"search" needs a query.');
+      options.search(query, {
+        caseSensitive: caseSensitive === true,
+        entireWord: entireWord === true,
+        highlightAll: highlightAll !== false,
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${message.command}".`);
+  }
+}
+
+function requireDocument() {
+  if (!options?.getDocument()) throw new Error('No document is open.');
+}
+
+function respond(message: EmbedCommand, error: string | null) {
+  if (!parentOrigin) return;
+  const response = error === null
+    ? { source: MESSAGE_SOURCE, type: 'response', id: message.id, ok: true }
+    : { source: MESSAGE_SOURCE, type: 'response', id: message.id, ok: false, error };
+  window.parent.postMessage(response, parentOrigin);
+}
+
+// --- Events ---
+function postEvent(event: string, payload: Record<string, unknown>) {
+  if (!parentOrigin) return;
+  window.parent.postMessage({ source: MESSAGE_SOURCE, type: 'event', event, ...payload }, parentOrigin);
+}
+
+function scheduleSelectionEvent() {
+  if (selectionTimer) clearTimeout(selectionTimer);
+  selectionTimer = setTimeout(() => {
+    selectionTimer = null;
+    const text = options?.getSelectedText() ?? null;
+    if (text === lastSelectionText) return;
+    lastSelectionText = text;
+    const anchor = window.getSelection()?.anchorNode;
+    const anchorElement = anchor instanceof Element ? anchor : anchor?.parentElement;
+    const pageNumber = text ? Number(anchorElement?.closest<HTMLElement>('.page')?.dataset.pageNumber) || null : null;
+    postEvent('selectionChanged', { text, pageNumber });
+  }, SELECTION_EVENT_DELAY_MS);
+}
@@ -0,0 +1,313 @@
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import type { PDFLinkService } from 'pdfjs-dist/web/pdf_viewer.mjs';
+import { getSnapshotViewport, isRenderingCancelled, renderViewportCrop } from './pageSnapshot';
+import { getPageLines, type PageLines, type TextLine } from './pageText';
+import { appendLine } from './textCleanup';
+
+// --- Constants ---
+const PIN_WIDTH = 420; // CSS pixels
+const FIGURE_REGION_HEIGHT = 320; // CSS pixels of page shown for figures and tables
+const EQUATION_REGION_HEIGHT = 90; // CSS pixels of page shown for equations
+const REGION_MARGIN = 12; // CSS pixels of context around the caption line
+const MAX_CAPTION_LINES = 3;
+const MAX_CAPTION_CHARS = 200;
+const EQUATION_NUMBER_MIN_X = 0.55; // Equation numbers sit in the right part of the page
+
+// Caption lines such as "Figure 3:", "Fig. 3.", "Table 2.", "TABLE IV", "Algorithm 1"
+const CAPTION_PATTERN = /^(Figure|Fig\.|FIGURE|Table|TABLE|Algorithm|ALGORITHM|Listing)\s*((?:[A-Z]\.)?\d+(?:\.\d+)*[a-z]?|[IVXLC]+)\s*(?:[:.|—–]|$)\s*(.*)$/;
+// Equation numbers like "(4)", "(2.3)" or "(4a)" at the end of a line
+const EQUATION_NUMBER_PATTERN = /\((\d{1,3}(?:\.\d+)*[a-z]?)\)\s*$/;
+
+// --- Type Aliases ---
+export type FigureKind = 'figure' | 'table' | 'algorithm' | 'equation';
+
+export type FigureEntry = {
+  kind: FigureKind;
+  label: string; // e.g. "Figure 3", "Table IV", "Equation (2.1)"
+  caption: string;
+  pageIndex: number; // 0-based
+  top: number; // PDF y-coordinate of the top of the caption (or equation) line
+  bottom: number; // PDF y-coordinate of its baseline
+};
+
+export type FiguresOptions = {
+  linkService: PDFLinkService;
+  getDocument: () => PDFDocumentProxy | null;
+  elements: {
+    figuresView: HTMLElement;
+    pinnedFigure: HTMLElement; // Floating panel for the pinned region
+  };
+};
+
+const KIND_HEADINGS: Record<FigureKind, string> = {
+  figure: 'Figures',
+  table: 'Tables',
+  algorithm: 'Algorithms',
+  equation: 'Equations',
+};
+
+// --- Module State ---
+let options: FiguresOptions | null = null;
+let indexedDocument: PDFDocumentProxy | null = null; // Document the index below belongs to
+let entries: FigureEntry[] = [];
+let scanGeneration = 0; // Incremented on reset so a running scan can bail out
+let pinRenderTask: RenderTask | null = null;
+
+/**
+ * Sets up the figures, tables and equations index view and the pinned preview.
+ */
+export function initFigures(figuresOptions: FiguresOptions) {
+  options = figuresOptions;
+}
+
+/**
+ * Clears the index and the pinned preview. Called when the document is replaced.
+ */
+export function resetFigures() {
+  scanGeneration++;
+  indexedDocument = null;
+  entries = [];
+  unpinFigure();
+  if (options) options.elements.figuresView.innerHTML = '';
+}
+
+/**
+ * Scans the current document for captions and numbered equations unless it
+ * was already indexed. Pages are scanned in order and the list fills in as it goes.
+ */
+export async function ensureFiguresIndexed() {
+  if (!options) return;
+  const pdfDocument = options.getDocument();
+  if (!pdfDocument || pdfDocument === indexedDocument) return;
+
+  resetFigures();
+  indexedDocument = pdfDocument;
+  const generation = scanGeneration;
+  options.elements.figuresView.innerHTML = '<em>Scanning document…</em>';
+
+  const seen = new Set<string>();
+  for (let pageIndex = 0; pageIndex < pdfDocument.numPages; pageIndex++) {
+    let pageLines: PageLines;
+    try {
+      pageLines = await getPageLines(pdfDocument, pageIndex);
+    } catch (error) {
+      console.warn(`Could not read text of page ${pageIndex + 1}:`, error);
+      continue;
+    }
+    if (generation !== scanGeneration) return; // Document changed meanwhile
+
+    // Keep the first occurrence of each label; later ones are usually "(continued)" captions
+    for (const entry of findPageEntries(pageLines)) {
+      const key = `${entry.kind}:${entry.label}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      entries.push(entry);
+    }
+    // Refresh every few pages so long documents show progress
+    if (pageIndex % 10 === 9) renderFigureList(false);
+  }
+  renderFigureList(true);
+}
+
+// --- Detection ---
+function findPageEntries(pageLines: PageLines): FigureEntry[] {
+  const found: FigureEntry[] = [];
+  const { lines } = pageLines;
+
+  lines.forEach((line, lineIndex) => {
+    const text = line.text.trim();
+    const captionMatch = CAPTION_PATTERN.exec(text);
+    if (captionMatch) {
+      const [, word = '', number = '', rest = ''] = captionMatch;
+      const kind = captionKind(word);
+      found.push({
+        kind,
+        label: `${word.charAt(0).toUpperCase()}${word.slice(1).toLowerCase()} ${number}`,
+        caption: collectCaption(rest, lines, lineIndex),
+        pageIndex: pageLines.pageIndex,
+        top: line.y + line.height,
+        bottom: line.y,
+      });
+      return;
+    }
+
+    const equationMatch = EQUATION_NUMBER_PATTERN.exec(text);
+    if (equationMatch && isEquationNumber(line, pageLines)) {
+      const body = text.slice(0, equationMatch.index).trim();
+      found.push({
+        kind: 'equation',
+        label: `Equation (${equationMatch[1]})`,
+        caption: body,
+        pageIndex: pageLines.pageIndex,
+        top: line.y + line.height,
+        bottom: line.y,
+      });
+    }
+  });
+  return found;
+}
+
+function captionKind(word: string): FigureKind {
+  const lower = word.toLowerCase();
+  if (lower.startsWith('tab')) return 'table';
+  if (lower === 'algorithm' || lower === 'listing') return 'algorithm';
+  return 'figure';
+}
+
+// An equation number is the last item of its line and sits near the right margin
+function isEquationNumber(line: TextLine, pageLines: PageLines): boolean {
+  const lastItem = [...line.items].reverse().find(item => item.str.trim().length > 0);
+  if (!lastItem || !EQUATION_NUMBER_PATTERN.test(lastItem.str)) return false;
+  return lastItem.transform[4] > pageLines.width * EQUATION_NUMBER_MIN_X;
+}
+
+// Caption text continues on the following lines of the same paragraph
+function collectCaption(firstLine: string, lines: TextLine[], lineIndex: number): string {
+  let caption = firstLine;
+  let previous = lines[lineIndex]!;
+  for (let i = lineIndex + 1; i < lines.length && i <= lineIndex + MAX_CAPTION_LINES; i++) {
+    const next = lines[i]!;
+    const gap = previous.y - next.y;
+    // Stop at paragraph breaks, column jumps and other captions
+    if (gap <= 0 || gap > previous.height * 1.8 || CAPTION_PATTERN.test(next.text.trim())) break;
+    caption = appendLine(caption, next.text.trim());
+    previous = next;
+    if (caption.length >= MAX_CAPTION_CHARS) break;
+  }
+  caption = caption.replace(/\s+/g, ' ').trim();
+  return caption.length > MAX_CAPTION_CHARS ? `${caption.slice(0, MAX_CAPTION_CHARS)}…` : caption;
+}
+
+// --- Sidebar List ---
+function renderFigureList(complete: boolean) {
+  if (!options) return;
+  const { figuresView } = options.elements;
+  figuresView.innerHTML = '';
+
+  if (entries.length === 0) {
+    figuresView.innerHTML = complete ? '<em>No figures, tables or equations found.</em>' : '<em>Scanning document…</em>';
+    return;
+  }
+
+  for (const kind of Object.keys(KIND_HEADINGS) as FigureKind[]) {
+    const kindEntries = entries.filter(entry => entry.kind === kind);
+    if (kindEntries.length === 0) continue;
+
+    const heading = document.createElement('div');
+    heading.className = 'figureGroupHeading';
+    heading.textContent = `${KIND_HEADINGS[kind]} (${kindEntries.length})`;
+    const list = document.createElement('ul');
+    list.className = 'figureList';
+    for (const entry of kindEntries) {
+      list.appendChild(createFigureItem(entry));
+    }
+    figuresView.append(heading, list);
+  }
+
+  if (!complete) {
+    const progress = document.createElement('em');
+    progress.textContent = 'Scanning document…';
+    figuresView.appendChild(progress);
+  }
+}
+
+function createFigureItem(entry: FigureEntry): HTMLLIElement {
+  const li = document.createElement('li');
+  li.className = 'figureItem';
+
+  const header = document.createElement('div');
+  header.className = 'figureItemHeader';
+  const label = document.createElement('span');
+  label.className = 'figureLabel';
+  label.textContent = entry.label;
+  const page = document.createElement('span');
+  page.className = 'figurePage';
+  page.textContent = `p. ${entry.pageIndex + 1}`;
+  const pinButton = document.createElement('button');
+  pinButton.className = 'figurePin';
+  pinButton.title = 'Pin a preview while reading';
+  pinButton.textContent = 'Pin';
+  header.append(label, page, pinButton);
+
+  const caption = document.createElement('div');
+  caption.className = 'figureCaption';
+  caption.textContent = entry.caption;
+
+  li.append(header, caption);
+  li.addEventListener('click', (event) => {
+    if (event.target === pinButton) return;
+    const [regionTop] = getRegionBounds(entry);
+    options?.linkService.goToXY(entry.pageIndex + 1, 0, regionTop);
+  });
+  pinButton.addEventListener('click', () => {
+    pinFigure(entry).catch(error => console.error("Error rendering pinned figure:", error));
+  });
+  return li;
+}
+
+// --- Pinned Preview ---
+// PDF y-coordinates [top, bottom] of the region shown for an entry; region sizes are CSS pixels at `scale`
+function getRegionBounds(entry: FigureEntry, scale = 1): [number, number] {
+  const margin = REGION_MARGIN / scale;
+  if (entry.kind === 'figure') {
+    // Figure captions sit below the figure
+    return [entry.bottom + FIGURE_REGION_HEIGHT / scale, entry.bottom - margin];
+  }
+  if (entry.kind === 'equation') {
+    const middle = (entry.top + entry.bottom) / 2;
+    return [middle + EQUATION_REGION_HEIGHT / scale / 2, middle - EQUATION_REGION_HEIGHT / scale / 2];
+  }
+  // Table and algorithm captions sit above their content
+  return [entry.top + margin, entry.top - FIGURE_REGION_HEIGHT / scale];
+}
+
+async function pinFigure(entry: FigureEntry) {
+  if (!options) return;
+  const pdfDocument = options.getDocument();
+  if (!pdfDocument) return;
+  const { pinnedFigure } = options.elements;
+
+  unpinFigure();
+  const generation = scanGeneration;
+  const page = await pdfDocument.getPage(entry.pageIndex + 1);
+  if (generation !== scanGeneration) return;
+
+  const viewport = getSnapshotViewport(page, PIN_WIDTH);
+  const [regionTop, regionBottom] = getRegionBounds(entry, viewport.scale);
+  const y1 = viewport.convertToViewportPoint(0, regionTop)[1];
+  const y2 = viewport.convertToViewportPoint(0, regionBottom)[1];
+  const crop = renderViewportCrop(page, viewport, Math.min(y1, y2), Math.abs(y2 - y1));
+
+  const header = document.createElement('div');
+  header.className = 'pinnedFigureHeader';
+  const title = document.createElement('span');
+  title.textContent = `${entry.label} · p. ${entry.pageIndex + 1}`;
+  title.title = entry.caption;
+  const closeButton = document.createElement('button');
+  closeButton.title = 'Unpin';
+  closeButton.textContent = '✕';
+  closeButton.addEventListener('click', unpinFigure);
+  header.append(title, closeButton);
+
+  // Clicking the preview jumps to the figure
+  crop.canvas.addEventListener('click', () => options?.linkService.goToXY(entry.pageIndex + 1, 0, regionTop));
+  pinnedFigure.append(header, crop.canvas);
+  pinnedFigure.classList.remove('hidden');
+
+  pinRenderTask = crop.renderTask;
+  try {
+    await pinRenderTask.promise;
+  } catch (error) {
+    if (!isRenderingCancelled(error)) throw error;
+  } finally {
+    if (pinRenderTask === crop.renderTask) pinRenderTask = null;
+  }
+}
+
+export function unpinFigure() {
+  pinRenderTask?.cancel();
+  pinRenderTask = null;
+  if (!options) return;
+  options.elements.pinnedFigure.classList.add('hidden');
+  options.elements.pinnedFigure.innerHTML = '';
+}
@@ -0,0 +1,109 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { getDocumentTitle } from './documentInfo';
+import { downloadFile, toFileName } from './download';
+
+// --- Type Aliases ---
+export type FormsOptions = {
+  getDocument: () => PDFDocumentProxy | null;
+  // File name or URL the current document was opened from
+  getSource: () => string | null;
+  // Called when a document gains or loses unsaved form edits
+  onDirtyChange: (pdfDocument: PDFDocumentProxy, isDirty: boolean) => void;
+  setStatus: (message: string) => void;
+  showError: (message: string) => void;
+  elements: {
+    saveButton: HTMLButtonElement;
+  };
+};
+
+// --- Module State ---
+let options: FormsOptions | null = null;
+const dirtyDocuments = new Set<PDFDocumentProxy>(); // Documents with form edits not yet saved
+
+/**
+ * Wires the save button, which downloads the document with the current form
+ * field values written into it, and warns before leaving with unsaved edits.
+ */
+export function initForms(formsOptions: FormsOptions) {
+  options = formsOptions;
+
+  formsOptions.elements.saveButton.addEventListener('click', () => {
+    saveFilledDocument().catch(error => {
+      console.error("Error saving document:", error);
+      formsOptions.showError(`Could not save the document: ${error instanceof Error ? error.message : error}`);
+    });
+  });
+
+  window.addEventListener('beforeunload', (event) => {
+    if (dirtyDocuments.size > 0) event.preventDefault();
+  });
+}
+
+/**
+ * Starts tracking form edits of a newly opened document.
+ */
+export function trackFormChanges(pdfDocument: PDFDocumentProxy) {
+  // The callbacks are typed as null in pdf.js, though assigning them is supported
+  const storage = pdfDocument.annotationStorage as unknown as {
+    onSetModified: (() => void) | null;
+    onResetModified: (() => void) | null;
+  };
+  storage.onSetModified = () => setDirty(pdfDocument, true);
+  storage.onResetModified = () => setDirty(pdfDocument, false);
+}
+
+/**
+ * Forgets a document that is being closed.
+ */
+export function untrackFormChanges(pdfDocument: PDFDocumentProxy) {
+  dirtyDocuments.delete(pdfDocument);
+  if (pdfDocument === options?.getDocument()) updateSaveButton();
+}
+
+export function hasUnsavedFormChanges(pdfDocument: PDFDocumentProxy): boolean {
+  return dirtyDocuments.has(pdfDocument);
+}
+
+/**
+ * Reflects the dirty state of the current document in the save button.
+ * Called when the current document changes.
+ */
+export function updateSaveButton() {
+  if (!options) return;
+  const pdfDocument = options.getDocument();
+  const { saveButton } = options.elements;
+  const isDirty = !!pdfDocument && dirtyDocuments.has(pdfDocument);
+  saveButton.disabled = !pdfDocument;
+  saveButton.classList.toggle('dirty', isDirty);
+  saveButton.title = isDirty ? 'Download with your form entries (unsaved changes)' : 'Download a copy of this PDF';
+}
+
+// --- Saving ---
+function setDirty(pdfDocument: PDFDocumentProxy, isDirty: boolean) {
+  if (isDirty === dirtyDocuments.has(pdfDocument)) return;
+  if (isDirty) {
+    dirtyDocuments.add(pdfDocument);
+  } else {
+    dirtyDocuments.delete(pdfDocument);
+  }
+  options?.onDirtyChange(pdfDocument, isDirty);
+  if (pdfDocument === options?.getDocument()) updateSaveButton();
+}
+
+async function saveFilledDocument() {
+  if (!options) return;
+  const pdfDocument = options.getDocument();
+  if (!pdfDocument) {
+    options.setStatus('Open a PDF to save it.');
+    return;
+  }
+
+  options.setStatus('Saving…');
+  // saveDocument() writes the form values (and marks them saved); without edits the original bytes do
+  const hasEdits = pdfDocument.annotationStorage.size > 0;
+  const data = hasEdits ? await pdfDocument.saveDocument() : await pdfDocument.getData();
+
+  const baseName = toFileName(options.getSource() ?? (await getDocumentTitle(pdfDocument)) ?? 'document');
+  downloadFile(`${baseName}${hasEdits ? '-filled' : ''}.pdf`, data as Uint8Array<ArrayBuffer>, 'application/pdf');
+  options.setStatus(hasEdits ? 'Saved a copy with your form entries.' : 'Saved a copy of the document.');
+}
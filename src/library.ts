@@ -0,0 +1,222 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { EventBus, PDFViewer } from 'pdfjs-dist/web/pdf_viewer.mjs';
+import { getDisplayTitle } from './documentInfo';
+import {
+  deleteLibraryEntry,
+  getLibraryEntries,
+  getLibraryEntry,
+  getLibraryFile,
+  putLibraryEntry,
+  putLibraryFile,
+  type LibraryEntry,
+  type LibrarySource,
+  type ReadingPosition,
+} from './libraryStore';
+
+// --- Constants ---
+const MAX_LIBRARY_ENTRIES = 30; // Oldest entries (and their cached bytes) are dropped beyond this
+const POSITION_SAVE_DELAY_MS = 500;
+
+// --- Type Aliases ---
+export type LibraryOptions = {
+  eventBus: EventBus;
+  pdfViewer: PDFViewer;
+  // Opens a library entry in the viewer
+  onOpen: (entry: LibraryEntry) => void;
+  elements: {
+    libraryView: HTMLElement; // Start screen overlay
+    libraryList: HTMLElement;
+    libraryButton: HTMLButtonElement;
+  };
+};
+
+// --- Module State ---
+let options: LibraryOptions | null = null;
+let currentEntry: LibraryEntry | null = null; // Entry of the open document, position is tracked into it
+let positionSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Sets up the recent documents start screen and reading position tracking.
+ */
+export function initLibrary(libraryOptions: LibraryOptions) {
+  options = libraryOptions;
+  const { eventBus, pdfViewer, elements } = libraryOptions;
+
+  elements.libraryButton.addEventListener('click', () => {
+    if (elements.libraryView.classList.contains('hidden')) {
+      showLibrary();
+    } else {
+      hideLibrary();
+    }
+  });
+
+  // Track the reading position of the open document
+  eventBus.on('updateviewarea', (evt: { location: any }) => {
+    if (!currentEntry || !evt.location) return;
+    const { pageNumber, left, top } = evt.location;
+    updatePosition({ pageNumber, left, top, scaleValue: String(pdfViewer.currentScaleValue) });
+  });
+  eventBus.on('scalechanging', (evt: { scale: number; presetValue?: string }) => {
+    if (!currentEntry?.position) return;
+    updatePosition({ ...currentEntry.position, scaleValue: evt.presetValue || String(evt.scale) });
+  });
+
+  // Don't lose the last position when the tab is closed
+  window.addEventListener('pagehide', flushPosition);
+}
+
+/**
+ * Records `pdfDocument` as recently opened and starts tracking its reading
+ * position. `fileData` is cached for documents opened from local files.
+ * Returns the reading position saved from the previous visit, if any.
+ */
+export async function openLibraryDocument(
+  pdfDocument: PDFDocumentProxy,
+  source: LibrarySource,
+  fileData?: ArrayBuffer,
+): Promise<ReadingPosition | null> {
+  closeLibraryDocument();
+  const fingerprint = pdfDocument.fingerprints[0];
+  if (!fingerprint) return null;
+
+  let previous: LibraryEntry | undefined;
+  try {
+    previous = await getLibraryEntry(fingerprint);
+  } catch (error) {
+    console.error("Error reading library entry:", error);
+  }
+
+  const entry: LibraryEntry = {
+    fingerprint,
+    title: await getDisplayTitle(pdfDocument, source),
+    source,
+    pageCount: pdfDocument.numPages,
+    lastOpened: Date.now(),
+    position: previous?.position ?? null,
+  };
+  currentEntry = entry;
+
+  try {
+    if (fileData) await putLibraryFile(fingerprint, fileData);
+    await putLibraryEntry(entry);
+    await pruneLibrary();
+  } catch (error) {
+    console.error("Error saving library entry:", error);
+  }
+  return previous?.position ?? null;
+}
+
+/**
+ * Stops tracking the current document, saving any pending position first.
+ */
+export function closeLibraryDocument() {
+  flushPosition();
+  currentEntry = null;
+}
+
+/**
+ * Returns the cached bytes of a library entry opened from a local file.
+ */
+export async function loadLibraryFile(entry: LibraryEntry): Promise<ArrayBuffer | null> {
+  return (await getLibraryFile(entry.fingerprint)) ?? null;
+}
+
+export async function showLibrary() {
+  if (!options) return;
+  const { libraryView, libraryList, libraryButton } = options.elements;
+  libraryView.classList.remove('hidden');
+  libraryButton.classList.add('toggled');
+
+  try {
+    const entries = await getLibraryEntries();
+    renderLibraryList(entries.sort((a, b) => b.lastOpened - a.lastOpened));
+  } catch (error) {
+    console.error("Error loading library:", error);
+    libraryList.innerHTML = '<em>Could not load recent documents.</em>';
+  }
+}
+
+export function hideLibrary() {
+  if (!options) return;
+  options.elements.libraryView.classList.add('hidden');
+  options.elements.libraryButton.classList.remove('toggled');
+}
+
+// --- Position Tracking ---
+function updatePosition(position: ReadingPosition) {
+  if (!currentEntry) return;
+  currentEntry.position = position;
+  if (positionSaveTimer) clearTimeout(positionSaveTimer);
+  positionSaveTimer = setTimeout(flushPosition, POSITION_SAVE_DELAY_MS);
+}
+
+function flushPosition() {
+  if (!positionSaveTimer) return;
+  clearTimeout(positionSaveTimer);
+  positionSaveTimer = null;
+  if (!currentEntry) return;
+  putLibraryEntry(currentEntry).catch(error => console.error("Error saving reading position:", error));
+}
+
+// --- Library List ---
+function renderLibraryList(entries: LibraryEntry[]) {
+  if (!options) return;
+  const { libraryList } = options.elements;
+  libraryList.innerHTML = '';
+
+  if (entries.length === 0) {
+    libraryList.innerHTML = '<em>No recent documents. Open a PDF file or enter a URL.</em>';
+    return;
+  }
+
+  const list = document.createElement('ul');
+  list.className = 'libraryEntries';
+  for (const entry of entries) {
+    list.appendChild(createLibraryItem(entry));
+  }
+  libraryList.appendChild(list);
+}
+
+function createLibraryItem(entry: LibraryEntry): HTMLLIElement {
+  const li = document.createElement('li');
+  li.className = 'libraryEntry';
+
+  const title = document.createElement('div');
+  title.className = 'libraryEntryTitle';
+  title.textContent = entry.title;
+
+  const details = document.createElement('div');
+  details.className = 'libraryEntryDetails';
+  const sourceLabel = entry.source.type === 'url' ? entry.source.url : `File: ${entry.source.name}`;
+  const pageLabel = entry.position ? `page ${entry.position.pageNumber} of ${entry.pageCount}` : `${entry.pageCount} pages`;
+  details.textContent = `${sourceLabel} · ${pageLabel} · opened ${new Date(entry.lastOpened).toLocaleString()}`;
+  details.title = sourceLabel;
+
+  const removeButton = document.createElement('button');
+  removeButton.className = 'libraryEntryRemove';
+  removeButton.title = 'Remove from recent documents';
+  removeButton.textContent = '✕';
+  removeButton.addEventListener('click', (event) => {
+    event.stopPropagation();
+    deleteLibraryEntry(entry.fingerprint)
+      .then(() => li.remove())
+      .catch(error => console.error("Error removing library entry:", error));
+  });
+
+  li.append(title, details, removeButton);
+  li.addEventListener('click', () => {
+    hideLibrary();
+    options?.onOpen(entry);
+  });
+  return li;
+}
+
+// --- Helpers ---
+async function pruneLibrary() {
+  const entries = await getLibraryEntries();
+  if (entries.length <= MAX_LIBRARY_ENTRIES) return;
+  entries.sort((a, b) => b.lastOpened - a.lastOpened);
+  for (const entry of entries.slice(MAX_LIBRARY_ENTRIES)) {
+    await deleteLibraryEntry(entry.fingerprint);
+  }
+}
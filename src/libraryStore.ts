@@ -0,0 +1,52 @@
+import { LIBRARY_FILE_STORE, LIBRARY_STORE, runRequest } from './database';
+
+// --- Type Aliases ---
+// Where a library document can be reopened from
+export type LibrarySource =
+  | { type: 'url'; url: string }
+  | { type: 'file'; name: string }; // Bytes are cached in LIBRARY_FILE_STORE
+
+// Last reading position, restored on reopen
+export type ReadingPosition = {
+  pageNumber: number; // 1-based
+  left: number; // PDF x-coordinate of the top-left visible point
+  top: number; // PDF y-coordinate of the top-left visible point
+  scaleValue: string; // PDFViewer.currentScaleValue, e.g. 'page-width' or '1.25'
+};
+
+export type LibraryEntry = {
+  fingerprint: string;
+  title: string;
+  source: LibrarySource;
+  pageCount: number;
+  lastOpened: number; // ms since epoch
+  position: ReadingPosition | null;
+};
+
+export function getLibraryEntries(): Promise<LibraryEntry[]> {
+  return runRequest(LIBRARY_STORE, 'readonly', store => store.getAll());
+}
+
+export function getLibraryEntry(fingerprint: string): Promise<LibraryEntry | undefined> {
+  return runRequest(LIBRARY_STORE, 'readonly', store => store.get(fingerprint));
+}
+
+export async function putLibraryEntry(entry: LibraryEntry): Promise<void> {
+  await runRequest(LIBRARY_STORE, 'readwrite', store => store.put(entry));
+}
+
+/**
+ * Removes an entry together with its cached file bytes.
+ */
+export async function deleteLibraryEntry(fingerprint: string): Promise<void> {
+  await runRequest(LIBRARY_STORE, 'readwrite', store => store.delete(fingerprint));
+  await runRequest(LIBRARY_FILE_STORE, 'readwrite', store => store.delete(fingerprint));
+}
+
+export function getLibraryFile(fingerprint: string): Promise<ArrayBuffer | undefined> {
+  return runRequest(LIBRARY_FILE_STORE, 'readonly', store => store.get(fingerprint));
+}
+
+export async function putLibraryFile(fingerprint: string, data: ArrayBuffer): Promise<void> {
+  await runRequest(LIBRARY_FILE_STORE, 'readwrite', store => store.put(data, fingerprint));
+}
@@ -0,0 +1,206 @@
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { resolveDestination, type ResolvedDestination } from './destinations';
+import { getSnapshotViewport, isRenderingCancelled, renderViewportCrop } from './pageSnapshot';
+
+// --- Constants ---
+const PREVIEW_WIDTH = 480; // CSS pixels
+const PREVIEW_HEIGHT = 220; // CSS pixels
+const PREVIEW_MARGIN_ABOVE = 24; // Show a little context above the destination point
+const SHOW_DELAY_MS = 250;
+const HIDE_DELAY_MS = 200;
+
+// Destination types whose 'top' coordinate points at a specific spot on the page
+const POSITIONED_DEST_TYPES = new Set(['XYZ', 'FitH', 'FitBH', 'FitR']);
+
+// --- Module State ---
+let previewContainer: HTMLElement | null = null;
+let getCurrentDocument: () => PDFDocumentProxy | null = () => null;
+let annotationsDocument: PDFDocumentProxy | null = null; // Document the cache below belongs to
+const pageAnnotationsCache = new Map<number, Promise<any[]>>(); // pageNumber -> annotations
+let activeLink: HTMLElement | null = null;
+let showTimer: ReturnType<typeof setTimeout> | null = null;
+let hideTimer: ReturnType<typeof setTimeout> | null = null;
+let renderTask: RenderTask | null = null;
+let previewRequestId = 0; // Incremented for every hover so stale renders can bail out
+
+/**
+ * Wires hover previews for internal links (citations, figure and equation
+ * references) rendered in the annotation layer inside `viewerContainer`.
+ * The preview shows a cropped snapshot of the link's destination region.
+ */
+export function initLinkPreview(viewerContainer: HTMLElement, container: HTMLElement, getDocument: () => PDFDocumentProxy | null) {
+  previewContainer = container;
+  getCurrentDocument = getDocument;
+
+  // Keep the preview open while the pointer is over it
+  container.addEventListener('mouseenter', cancelHide);
+  container.addEventListener('mouseleave', scheduleHide);
+
+  attachLinkPreview(viewerContainer);
+}
+
+/**
+ * Adds hover previews to the links of another viewer. `getDocument` returns the
+ * document that viewer shows, if it isn't always the current one.
+ */
+export function attachLinkPreview(viewerContainer: HTMLElement, getDocument?: () => PDFDocumentProxy | null) {
+  viewerContainer.addEventListener('mouseover', (event) => {
+    const link = findInternalLink(event.target);
+    if (!link) return;
+    cancelHide();
+    if (link !== activeLink) scheduleShow(link, getDocument ?? getCurrentDocument);
+  });
+
+  viewerContainer.addEventListener('mouseout', (event) => {
+    const link = findInternalLink(event.target);
+    if (!link) return;
+    // Ignore moves between children of the same link
+    if (event.relatedTarget instanceof Node && link.contains(event.relatedTarget)) return;
+    if (showTimer) {
+      // Left before the preview appeared
+      clearTimeout(showTimer);
+      showTimer = null;
+      activeLink = null;
+      return;
+    }
+    scheduleHide();
+  });
+
+  // The preview is anchored to the link position, so drop it once the page moves
+  viewerContainer.addEventListener('scroll', hideLinkPreview, { passive: true });
+}
+
+/**
+ * Hides the preview and forgets cached link annotations. Called when the
+ * document is replaced.
+ */
+export function resetLinkPreview() {
+  hideLinkPreview();
+  pageAnnotationsCache.clear();
+  annotationsDocument = null;
+}
+
+export function hideLinkPreview() {
+  if (showTimer) { clearTimeout(showTimer); showTimer = null; }
+  cancelHide();
+  cancelRender();
+  activeLink = null;
+  previewContainer?.classList.add('hidden');
+}
+
+// --- Hover Handling ---
+function findInternalLink(target: EventTarget | null): HTMLElement | null {
+  if (!(target instanceof Element)) return null;
+  // pdf.js marks internal link annotations with 'data-internal-link'
+  return target.closest<HTMLElement>('.linkAnnotation[data-internal-link]');
+}
+
+function scheduleShow(link: HTMLElement, getDocument: () => PDFDocumentProxy | null) {
+  if (showTimer) clearTimeout(showTimer);
+  activeLink = link;
+  showTimer = setTimeout(() => {
+    showTimer = null;
+    showPreview(link, getDocument()).catch(error => console.error("Error rendering link preview:", error));
+  }, SHOW_DELAY_MS);
+}
+
+function scheduleHide() {
+  cancelHide();
+  hideTimer = setTimeout(hideLinkPreview, HIDE_DELAY_MS);
+}
+
+function cancelHide() {
+  if (hideTimer) { clearTimeout(hideTimer); hideTimer = null; }
+}
+
+// --- Destination Lookup ---
+async function getPageAnnotations(pdfDocument: PDFDocumentProxy, pageNumber: number): Promise<any[]> {
+  if (annotationsDocument !== pdfDocument) {
+    pageAnnotationsCache.clear();
+    annotationsDocument = pdfDocument;
+  }
+  let annotations = pageAnnotationsCache.get(pageNumber);
+  if (!annotations) {
+    annotations = pdfDocument.getPage(pageNumber).then(page => page.getAnnotations());
+    pageAnnotationsCache.set(pageNumber, annotations);
+  }
+  return annotations;
+}
+
+async function resolveLinkDestination(pdfDocument: PDFDocumentProxy, link: HTMLElement): Promise<ResolvedDestination | null> {
+  const annotationId = link.dataset.annotationId;
+  const pageDiv = link.closest<HTMLElement>('.page');
+  const pageNumber = Number(pageDiv?.dataset.pageNumber);
+  if (!annotationId || !pageNumber) return null;
+
+  const annotations = await getPageAnnotations(pdfDocument, pageNumber);
+  const annotation = annotations.find(a => a.id === annotationId);
+  if (!annotation?.dest) return null; // Action-based links (e.g. page navigation) have no dest
+  return resolveDestination(pdfDocument, annotation.dest);
+}
+
+// --- Rendering ---
+function cancelRender() {
+  previewRequestId++;
+  renderTask?.cancel();
+  renderTask = null;
+  if (previewContainer) previewContainer.innerHTML = '';
+}
+
+async function showPreview(link: HTMLElement, pdfDocument: PDFDocumentProxy | null) {
+  if (!pdfDocument || !previewContainer) return;
+
+  cancelRender();
+  const requestId = previewRequestId;
+
+  const destination = await resolveLinkDestination(pdfDocument, link);
+  if (!destination || requestId !== previewRequestId) return;
+
+  const page = await pdfDocument.getPage(destination.pageIndex + 1);
+  if (requestId !== previewRequestId) return;
+
+  const viewport = getSnapshotViewport(page, PREVIEW_WIDTH);
+  const previewHeight = Math.min(PREVIEW_HEIGHT, viewport.height);
+
+  // Find the destination point in viewport (top-left origin) coordinates
+  let destinationY = 0;
+  if (destination.top !== null && POSITIONED_DEST_TYPES.has(destination.type ?? '')) {
+    destinationY = viewport.convertToViewportPoint(destination.left ?? 0, destination.top)[1];
+  }
+  const crop = renderViewportCrop(page, viewport, destinationY - PREVIEW_MARGIN_ABOVE, previewHeight);
+
+  const caption = document.createElement('div');
+  caption.className = 'linkPreviewCaption';
+  caption.textContent = `Page ${destination.pageIndex + 1}`;
+
+  previewContainer.append(caption, crop.canvas);
+  positionPreview(link, previewHeight);
+  previewContainer.classList.remove('hidden');
+
+  renderTask = crop.renderTask;
+  try {
+    await renderTask.promise;
+  } catch (error) {
+    // Cancelled renders are expected when the pointer moves on
+    if (!isRenderingCancelled(error)) throw error;
+  } finally {
+    if (requestId === previewRequestId) renderTask = null;
+  }
+}
+
+function positionPreview(link: HTMLElement, previewHeight: number) {
+  if (!previewContainer) return;
+  const rect = link.getBoundingClientRect();
+  const totalHeight = previewHeight + 30; // Canvas plus caption and padding
+  const gap = 6;
+
+  // Prefer below the link, flip above if there is not enough room
+  let top = rect.bottom + gap;
+  if (top + totalHeight > window.innerHeight && rect.top - gap - totalHeight > 0) {
+    top = rect.top - gap - totalHeight;
+  }
+  const left = Math.max(gap, Math.min(rect.left, window.innerWidth - PREVIEW_WIDTH - 2 * gap));
+
+  previewContainer.style.top = `${top}px`;
+  previewContainer.style.left = `${left}px`;
+}
@@ -2,12 +2,30 @@ import * as pdfjsLib from "pdfjs-dist";
 import 'pdfjs-dist/web/pdf_viewer.css';
 import PdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 
-import {
-  EventBus,
-  PDFLinkService,
-  PDFViewer,
-  // AnnotationMode // Import if needed for enum value
-} from 'pdfjs-dist/web/pdf_viewer.mjs'; // Or viewer.mjs
+import { PDFHistory } from 'pdfjs-dist/web/pdf_viewer.mjs'; // Or viewer.mjs
+import { getViewportOffset, resolveDestination } from './destinations';
+import { initAnnotationExport } from './annotationExport';
+import { initEmbedApi, parseAllowedOrigins, reportOutlineItem } from './embedApi';
+import { addHighlightViewer, clearAnnotations, initAnnotations, loadDocumentAnnotations } from './annotations';
+import { compareWith, initCompare, isAwaitingComparison, resetCompare } from './compare';
+import { ensureFiguresIndexed, initFigures, resetFigures } from './figures';
+import { closeLibraryDocument, hideLibrary, initLibrary, loadLibraryFile, openLibraryDocument, showLibrary } from './library';
+import type { LibraryEntry, LibrarySource, ReadingPosition } from './libraryStore';
+import { attachLinkPreview, initLinkPreview, resetLinkPreview } from './linkPreview';
+import { getDisplayTitle, getPageLabel } from './documentInfo';
+import { hideDocumentProperties, initDocumentProperties } from './documentProperties';
+import { hasUnsavedFormChanges, initForms, trackFormChanges, untrackFormChanges, updateSaveButton } from './forms';
+import { describeLoadError, initDocumentLoader, openDocument, type DocumentRequest, type OpenedDocument } from './documentLoader';
+import { addOutlinePosition, createOutlineIndex, findOutlineItemAt, type OutlineIndex, type OutlinePosition } from './outlineIndex';
+import { inferOutline, type InferredOutlineItem } from './outlineInference';
+import { goToPage, initPageNavigation, setPageNavigationDocument } from './pageNavigation';
+import { ensureReferencesIndexed, initReferences, resetReferences } from './references';
+import { findText, initSearch, resetSearch } from './search';
+import { attachTextCopy, getSelectedText, initTextCopy } from './textCopy';
+import { getActivePane, initSplitView, openDestinationInSplitView, setSplitViewDocument } from './splitView';
+import { buildThumbnails, clearThumbnails, initThumbnails, scrollToCurrentThumbnail, setCurrentThumbnail } from './thumbnails';
+import { addTab, initTabStrip, removeTab, setActiveTab, setTabDirty } from './tabs';
+import { createViewerPane, type ViewerPane } from './viewerPane';
 
 // --- Type Aliases ---
 type PDFDocumentProxy = pdfjsLib.PDFDocumentProxy;
@@ -25,6 +43,23 @@ type OutlineNode = {
   items: Array<OutlineNode>; // Nested items
 };
 
+// A view of the outline sidebar, kept while its tab is in the background
+type SavedOutline = {
+  nodes: Node[]; // Detached content of the outline view
+  data: OutlineNode[] | null;
+  index: OutlineIndex<HTMLElement> | null;
+  highlight: HTMLElement | null;
+};
+
+// A document open in a tab; its view state is restored when switching back
+type DocumentTab = {
+  id: number;
+  pdfDocument: PDFDocumentProxy;
+  source: LibrarySource;
+  position: ReadingPosition | null; // Scroll position and zoom, saved when switching away
+  outline: SavedOutline | null; // Saved when switching away
+};
+
 // --- DOM Element References ---
 const viewerContainer = document.getElementById('viewerContainer')!;
 const viewerDiv = document.getElementById('viewer')!;
@@ -37,164 +72,379 @@ const body = document.body;
 const zoomOutButton = document.getElementById('zoomOut') as HTMLButtonElement;
 const zoomInButton = document.getElementById('zoomIn') as HTMLButtonElement;
 const zoomSelect = document.getElementById('zoomSelect') as HTMLSelectElement;
+const historyBackButton = document.getElementById('historyBack') as HTMLButtonElement;
+const historyForwardButton = document.getElementById('historyForward') as HTMLButtonElement;
+const pageNumberInput = document.getElementById('pageNumber') as HTMLInputElement;
+const pageCountLabel = document.getElementById('pageCount')!;
+const propertiesButton = document.getElementById('propertiesButton') as HTMLButtonElement;
+const propertiesDialog = document.getElementById('propertiesDialog')!;
+const propertiesList = document.getElementById('propertiesList')!;
+const propertiesCloseButton = document.getElementById('propertiesClose') as HTMLButtonElement;
+const saveButton = document.getElementById('saveButton') as HTMLButtonElement;
+const splitViewButton = document.getElementById('splitViewButton') as HTMLButtonElement;
+const compareButton = document.getElementById('compareButton') as HTMLButtonElement;
+const secondaryViewerContainer = document.getElementById('secondaryViewerContainer') as HTMLDivElement;
+const secondaryViewerDiv = document.getElementById('secondaryViewer') as HTMLDivElement;
+const libraryButton = document.getElementById('libraryButton') as HTMLButtonElement;
 const errorWrapper = document.getElementById('errorWrapper')!;
 const errorMessage = document.getElementById('errorMessage')!;
 const errorCloseButton = document.getElementById('errorClose') as HTMLButtonElement;
+const linkPreviewContainer = document.getElementById('linkPreview')!;
+const libraryView = document.getElementById('libraryView')!;
+const libraryList = document.getElementById('libraryList')!;
+const tabStrip = document.getElementById('tabStrip')!;
+const loadingBar = document.getElementById('loadingBar')!;
+const loadingProgressBar = document.getElementById('loadingProgressBar')!;
+const loadingCancelButton = document.getElementById('loadingCancel') as HTMLButtonElement;
+const passwordDialog = document.getElementById('passwordDialog')!;
+const passwordForm = document.getElementById('passwordForm') as HTMLFormElement;
+const passwordMessage = document.getElementById('passwordMessage')!;
+const passwordInput = document.getElementById('passwordInput') as HTMLInputElement;
+const passwordCancelButton = document.getElementById('passwordCancel') as HTMLButtonElement;
 // Sidebar elements
 const outlineView = document.getElementById('outlineView')!;
-const thumbnailView = document.getElementById('thumbnailView')!; // Keep reference
+const thumbnailView = document.getElementById('thumbnailView')!;
 const viewOutlineButton = document.getElementById('viewOutline') as HTMLButtonElement;
-const viewThumbnailButton = document.getElementById('viewThumbnail') as HTMLButtonElement; // Keep reference
+const viewThumbnailButton = document.getElementById('viewThumbnail') as HTMLButtonElement;
+const searchResultsView = document.getElementById('searchResultsView')!;
+const viewSearchButton = document.getElementById('viewSearch') as HTMLButtonElement;
+const annotationsView = document.getElementById('annotationsView')!;
+const annotationsList = document.getElementById('annotationsList')!;
+const exportMarkdownButton = document.getElementById('exportMarkdown') as HTMLButtonElement;
+const exportJsonButton = document.getElementById('exportJson') as HTMLButtonElement;
+const importAnnotationsButton = document.getElementById('importAnnotations') as HTMLButtonElement;
+const importAnnotationsInput = document.getElementById('importAnnotationsInput') as HTMLInputElement;
+const viewAnnotationsButton = document.getElementById('viewAnnotations') as HTMLButtonElement;
+const highlightToolbar = document.getElementById('highlightToolbar')!;
+const figuresView = document.getElementById('figuresView')!;
+const viewFiguresButton = document.getElementById('viewFigures') as HTMLButtonElement;
+const pinnedFigure = document.getElementById('pinnedFigure')!;
+const referencesView = document.getElementById('referencesView')!;
+const referencesList = document.getElementById('referencesList')!;
+const viewReferencesButton = document.getElementById('viewReferences') as HTMLButtonElement;
+const exportBibtexButton = document.getElementById('exportBibtex') as HTMLButtonElement;
+const exportCslJsonButton = document.getElementById('exportCslJson') as HTMLButtonElement;
+const compareView = document.getElementById('compareView')!;
+const changesList = document.getElementById('changesList')!;
+const viewChangesButton = document.getElementById('viewChanges') as HTMLButtonElement;
+const previousChangeButton = document.getElementById('previousChange') as HTMLButtonElement;
+const nextChangeButton = document.getElementById('nextChange') as HTMLButtonElement;
+// Find bar elements
+const findBar = document.getElementById('findBar')!;
+const findInput = document.getElementById('findInput') as HTMLInputElement;
+const findPreviousButton = document.getElementById('findPrevious') as HTMLButtonElement;
+const findNextButton = document.getElementById('findNext') as HTMLButtonElement;
+const findHighlightAll = document.getElementById('findHighlightAll') as HTMLInputElement;
+const findMatchCase = document.getElementById('findMatchCase') as HTMLInputElement;
+const findEntireWord = document.getElementById('findEntireWord') as HTMLInputElement;
+const findCloseButton = document.getElementById('findClose') as HTMLButtonElement;
+
+// --- Constants ---
+const OUTLINE_SYNC_TOLERANCE = 4; // Pixels; an outline item this close below the viewport top counts as reached
 
 // --- PDF.js Setup ---
 pdfjsLib.GlobalWorkerOptions.workerSrc = PdfjsWorker;
 
 // --- Viewer Component Setup ---
-let pdfViewer: PDFViewer | null = null;
-let pdfLinkService: PDFLinkService | null = null;
-let eventBus: EventBus | null = null;
+let primaryPane: ViewerPane | null = null; // Main pane; history, search and the sidebar follow it
+let pdfHistory: PDFHistory | null = null;
 let currentPdfDocument: PDFDocumentProxy | null = null;
+let currentPdfSource: string | null = null; // File name or URL of the current document
+let pendingReadingPosition: ReadingPosition | null = null; // Restored once pages are initialized
 let lastOutlineHighlight: HTMLElement | null = null; // Track highlighted item
 let outlineData: OutlineNode[] | null = null; // Store fetched outline data
-let outlineDestMap: Map<HTMLElement, { pageIndex: number, top: number | null }> | null = null; // Map outline elements to page indices
-
-// --- Enums (using fallback values) ---
-const LinkTarget_BLANK = 2;
-const TextLayerMode_ENABLE = 1;
-const AnnotationMode_ENABLE_FORMS = 2;
+let outlineIndex: OutlineIndex<HTMLElement> | null = null; // Positions of outline items, for scroll syncing
+let outlineDocument: PDFDocumentProxy | null = null; // Document whose outline is completely rendered
+let currentLocation: ReadingPosition | null = null; // Latest scroll position and zoom of the current document
+let startupLink: { url: string; hash: string } | null = null; // ?file= link the viewer was opened with, until its pages initialize
+const documentTabs = new Map<number, DocumentTab>(); // In tab strip order
+let activeTab: DocumentTab | null = null;
+let nextTabId = 1;
 
 function initializePdfJsComponents() {
-  eventBus = new EventBus();
+  primaryPane = createViewerPane(viewerContainer as HTMLDivElement, viewerDiv as HTMLDivElement, { withFindController: true });
+  const { eventBus, linkService: pdfLinkService, pdfViewer } = primaryPane;
+  const pdfFindController = primaryPane.findController!;
 
-  pdfLinkService = new PDFLinkService({
+  // Browser history entries for internal link jumps; also keeps the URL hash in sync
+  pdfHistory = new PDFHistory({
     eventBus: eventBus,
-    externalLinkTarget: LinkTarget_BLANK,
+    linkService: pdfLinkService,
   });
-
-  pdfViewer = new PDFViewer({
-    container: viewerContainer as HTMLDivElement,
-    viewer: viewerDiv as HTMLDivElement,
-    eventBus: eventBus,
+  pdfLinkService.setHistory(pdfHistory);
+
+  // Hover previews for citations and cross-references
+  initLinkPreview(viewerContainer, linkPreviewContainer, () => currentPdfDocument);
+  // Thumbnail sidebar navigates through the link service
+  initThumbnails(thumbnailView, (pageNumber) => pdfLinkService.goToPage(pageNumber));
+  // Find bar and search results panel
+  initSearch({
+    eventBus,
+    findController: pdfFindController,
+    linkService: pdfLinkService,
+    getDocument: () => currentPdfDocument,
+    getSectionTitle: getOutlineSectionTitle,
+    setStatus,
+    showResultsPanel: () => showSidebarView(viewSearchButton, searchResultsView),
+    elements: {
+      findBar,
+      findInput,
+      findPrevious: findPreviousButton,
+      findNext: findNextButton,
+      highlightAll: findHighlightAll,
+      matchCase: findMatchCase,
+      entireWord: findEntireWord,
+      findClose: findCloseButton,
+      resultsView: searchResultsView,
+    },
+  });
+  // Highlights and notes
+  initAnnotations({
+    eventBus,
+    pdfViewer,
+    linkService: pdfLinkService,
+    getDocument: () => currentPdfDocument,
+    setStatus,
+    showAnnotationsPanel: () => showSidebarView(viewAnnotationsButton, annotationsView),
+    elements: {
+      viewerContainer,
+      selectionToolbar: highlightToolbar,
+      annotationsList,
+    },
+  });
+  // Clean copying from the text layer, with citation and Markdown variants
+  initTextCopy({
+    getDocument: () => currentPdfDocument,
+    getSource: () => activeTab?.source ?? null,
+    setStatus,
+    elements: {
+      viewerContainer,
+      selectionToolbar: highlightToolbar,
+    },
+  });
+  // Figures, tables and equations index
+  initFigures({
+    linkService: pdfLinkService,
+    getDocument: () => currentPdfDocument,
+    elements: {
+      figuresView,
+      pinnedFigure,
+    },
+  });
+  // Bibliography entries with citation links and BibTeX/CSL-JSON export
+  initReferences({
     linkService: pdfLinkService,
-    textLayerMode: TextLayerMode_ENABLE,
-    annotationMode: AnnotationMode_ENABLE_FORMS,
+    getDocument: () => currentPdfDocument,
+    getSource: () => currentPdfSource,
+    setStatus,
+    elements: {
+      referencesList,
+      exportBibtexButton,
+      exportCslJsonButton,
+    },
+  });
+  // Recent documents start screen and reading position tracking
+  initLibrary({
+    eventBus,
+    pdfViewer,
+    onOpen: (entry) => loadPdf(entry),
+    elements: {
+      libraryView,
+      libraryList,
+      libraryButton,
+    },
+  });
+  // Optional second pane over the same document
+  initSplitView({
+    primaryPane,
+    getDocument: () => currentPdfDocument,
+    onPaneCreated: (pane) => {
+      // The second pane may show another version while comparing
+      attachLinkPreview(pane.container, () => pane.pdfViewer.pdfDocument ?? null);
+      attachTextCopy(pane.container);
+      addHighlightViewer(pane.eventBus, pane.pdfViewer);
+      pane.eventBus.on('scalechanging', (evt: { scale: number; presetValue?: string }) => {
+        if (getActivePane() === pane) updateZoomControls(evt.presetValue || String(evt.scale));
+      });
+    },
+    onActivePaneChange: () => updateZoomControls(),
+    setStatus,
+    elements: {
+      splitViewButton,
+      secondaryContainer: secondaryViewerContainer,
+      secondaryViewer: secondaryViewerDiv,
+    },
+  });
+  // Differences to another version, shown in the split view
+  initCompare({
+    primaryPane,
+    getDocument: () => currentPdfDocument,
+    getSource: () => activeTab?.source ?? null,
+    setStatus,
+    showCompareView: () => showSidebarView(viewChangesButton, compareView),
+    elements: {
+      compareButton,
+      changesList,
+      previousChangeButton,
+      nextChangeButton,
+    },
+  });
+  // Progress, cancellation and password prompt while loading documents
+  initDocumentLoader({
+    setStatus,
+    elements: {
+      loadingBar,
+      progressBar: loadingProgressBar,
+      cancelButton: loadingCancelButton,
+      passwordDialog,
+      passwordForm,
+      passwordMessage,
+      passwordInput,
+      passwordCancel: passwordCancelButton,
+    },
+  });
+  // Open documents
+  initTabStrip({
+    onSelect: (id) => {
+      const tab = documentTabs.get(id);
+      if (tab) activateTab(tab);
+    },
+    onClose: (id) => { closeTab(id); },
+    elements: { tabStrip },
+  });
+  // Page number field and document properties
+  initPageNavigation({
+    eventBus,
+    pdfViewer,
+    setStatus,
+    elements: { pageInput: pageNumberInput, pageCount: pageCountLabel },
+  });
+  initDocumentProperties({
+    getDocument: () => currentPdfDocument,
+    getSource: () => currentPdfSource,
+    setStatus,
+    elements: {
+      propertiesButton,
+      dialog: propertiesDialog,
+      propertiesList,
+      closeButton: propertiesCloseButton,
+    },
+  });
+  // Saving filled-in forms
+  initForms({
+    getDocument: () => currentPdfDocument,
+    getSource: () => currentPdfSource,
+    onDirtyChange: (pdfDocument, isDirty) => {
+      const tab = [...documentTabs.values()].find(tab => tab.pdfDocument === pdfDocument);
+      if (tab) setTabDirty(tab.id, isDirty);
+    },
+    setStatus,
+    showError,
+    elements: { saveButton },
+  });
+  initAnnotationExport({
+    getDocument: () => currentPdfDocument,
+    getSource: () => currentPdfSource,
+    getSectionTitle: getOutlineSectionTitle,
+    setStatus,
+    showError,
+    elements: {
+      exportMarkdownButton,
+      exportJsonButton,
+      importButton: importAnnotationsButton,
+      importInput: importAnnotationsInput,
+    },
   });
 
-  pdfLinkService.setViewer(pdfViewer);
+  // Control from an embedding page, when running in an iframe
+  initEmbedApi({
+    allowedOrigins: parseAllowedOrigins(import.meta.env.VITE_EMBED_ALLOWED_ORIGINS),
+    eventBus,
+    pdfViewer,
+    linkService: pdfLinkService,
+    getDocument: () => currentPdfDocument,
+    openUrl: (url) => loadPdf(url),
+    openFile: (file) => loadPdf(file),
+    goToPage,
+    search: findText,
+    getSelectedText,
+  });
 
   // --- Event Bus Listeners ---
   eventBus.on('pagesinit', () => {
     console.log('PDFViewer: pagesinit event');
-    pdfViewer!.currentScaleValue = 'page-width';
+    // PDFHistory only knows the bookmark of a revisited history entry, not of a link opened in a new tab
+    const initialBookmark = pdfHistory?.initialBookmark ?? takeStartupHash();
+    if (initialBookmark) {
+      // A shared link or history entry (e.g. #page=12&zoom=page-width) wins over the saved position
+      pendingReadingPosition = null;
+      pdfViewer.currentScaleValue = 'page-width';
+      pdfLinkService.setHash(initialBookmark);
+    } else if (pendingReadingPosition) {
+      // Reopened document: go back to where the reader left off
+      const { pageNumber, left, top, scaleValue } = pendingReadingPosition;
+      pendingReadingPosition = null;
+      pdfViewer.currentScaleValue = scaleValue;
+      pdfViewer.scrollPageIntoView({
+        pageNumber,
+        destArray: [null, { name: 'XYZ' }, left, top, null],
+        allowNegativeOffset: true,
+      });
+    } else {
+      pdfViewer.currentScaleValue = 'page-width';
+    }
     updateZoomControls();
   });
 
   eventBus.on('scalechanging', (evt: { scale: number; presetValue?: string }) => {
-    updateZoomControls(evt.presetValue || String(evt.scale));
+    if (getActivePane() === primaryPane) updateZoomControls(evt.presetValue || String(evt.scale));
   });
 
   eventBus.on('pagesloaded', () => {
     console.log('PDFViewer: pagesloaded event (via EventBus)');
-    const pageCount = pdfViewer?.pagesCount || 'N/A';
+    const pageCount = pdfViewer.pagesCount || 'N/A';
     setStatus(`Loaded: ${pageCount} pages`);
-    pdfLinkService?.setDocument(currentPdfDocument, null);
-    // Fetch and render the outline AFTER the document is loaded in the viewer
-    fetchAndRenderOutline();
+    pdfLinkService.setDocument(currentPdfDocument, null);
+    // Fetch and render the outline AFTER the document is loaded in the viewer,
+    // unless the tab was open before and kept its outline
+    if (activeTab?.outline) {
+      restoreOutline(activeTab.outline);
+      activeTab.outline = null;
+    } else {
+      fetchAndRenderOutline();
+    }
   });
 
   // Listener for scroll/view area changes to update outline highlight
   eventBus.on('updateviewarea', (evt: { location: any }) => {
-    // Ensure map and location exist
-    if (!outlineDestMap || !evt.location || !pdfViewer) return; // Add pdfViewer check
-
-    // --- Use Destination Coordinates ---
-    const currentScroll = pdfViewer.container.scrollTop; // Use container scroll
-    const currentCenter = currentScroll + pdfViewer.container.clientHeight / 2; // Approx center
-
-    // Find the page view nearest the center of the viewport
-    // PDFViewer stores page views; we need to find which one is currently visible
-    let visiblePageView = pdfViewer.getPageView(0); // Default to first page
-    for (let i = 0; i < pdfViewer.pagesCount; i++) {
-        const pageView = pdfViewer.getPageView(i);
-        if (!pageView?.div) continue; // Skip if page view not rendered/ready
-
-        const pageTop = pageView.div.offsetTop;
-        const pageBottom = pageTop + pageView.div.clientHeight;
-
-        // Check if the center of the viewport falls within this page's bounds
-        if (currentCenter >= pageTop && currentCenter < pageBottom) {
-            visiblePageView = pageView;
-            break; // Found the most relevant page
-        }
-        // Fallback: if scrolled past the last page's top, use the last page
-        if (i === pdfViewer.pagesCount - 1 && currentScroll >= pageTop) {
-             visiblePageView = pageView;
-        }
+    // A switched-to tab's document is set only after the library lookup; until then the
+    // previous document is still shown and its positions must not be saved for this tab
+    if (pdfViewer.pdfDocument !== activeTab?.pdfDocument) return;
+    // Keep the thumbnail of the current page highlighted
+    if (evt.location?.pageNumber) {
+      setCurrentThumbnail(evt.location.pageNumber);
+      // Remembered per tab when switching documents
+      const { pageNumber, left, top } = evt.location;
+      currentLocation = { pageNumber, left, top, scaleValue: String(pdfViewer.currentScaleValue) };
     }
 
-    if (!visiblePageView?.pdfPage) {
-        console.warn("Could not determine visible page view.");
-        return; // Cannot proceed without a valid page view
-    }
-
-    const currentPageIndex = visiblePageView.id - 1; // pageView.id is 1-based page number
-    const pageViewport = visiblePageView.viewport; // Use the viewport of the visible page
-
-    // Calculate the scroll position *within* the current page, relative to its top-left (PDF coords)
-    // scrollTop is relative to the container, pageTop is the page's offset within the container
-    const scrollWithinPage = currentScroll - visiblePageView.div.offsetTop;
-    // Convert viewport scroll position to PDF coordinate system (usually y increases downwards)
-    // Note: This might need adjustment based on viewport rotation
-    const currentY = pageViewport.convertToPdfPoint(0, scrollWithinPage)[1];
-
-    let bestMatchElement: HTMLElement | null = null;
-    let bestMatchPage = -1;
-    let bestMatchTop = -Infinity; // Use -Infinity to correctly find the max top <= currentY
-
-    // Iterate through the stored outline destinations
-    outlineDestMap.forEach((destInfo: { pageIndex: number; top: number | null }, element: HTMLElement) => {
-        // Check if this destination is "above or at" the current scroll position
-        const isAboveOrAt = (
-            destInfo.pageIndex < currentPageIndex ||
-            (destInfo.pageIndex === currentPageIndex && destInfo.top !== null && destInfo.top >= currentY)
-            // Note: PDF Y-coords often increase downwards, so a higher 'top' value means lower on the page.
-            // We want the *highest* 'top' value that is still >= currentY (meaning just above or at the scroll position).
-            // If your coordinate system is inverted (Y increases upwards), flip the comparison: destInfo.top <= currentY
-        );
-
-        if (isAboveOrAt) {
-            // Check if this is a "better" match than the current best
-            // Prioritize page index first, then the 'top' coordinate
-            if (destInfo.pageIndex > bestMatchPage) {
-                bestMatchPage = destInfo.pageIndex;
-                bestMatchTop = destInfo.top ?? -Infinity; // Use -Infinity if top is null
-                bestMatchElement = element;
-            } else if (destInfo.pageIndex === bestMatchPage && (destInfo.top ?? -Infinity) > bestMatchTop) {
-                // On the same page, find the one with the highest 'top' value (closest below or at currentY)
-                bestMatchTop = destInfo.top ?? -Infinity;
-                bestMatchElement = element;
-            }
-        }
-    });
-
-    // Update highlighting
-    if (bestMatchElement && bestMatchElement !== lastOutlineHighlight) {
-        if (lastOutlineHighlight) {
-            lastOutlineHighlight.classList.remove('active');
-        }
-        (bestMatchElement as HTMLElement).classList.add('active');
-        // Scroll outline view to keep active item visible
-        (bestMatchElement as HTMLElement).scrollIntoView({ block: 'nearest' });
-        lastOutlineHighlight = bestMatchElement;
-    } else if (!bestMatchElement && lastOutlineHighlight) {
-        // Scrolled before the first outline item
-        lastOutlineHighlight.classList.remove('active');
-        lastOutlineHighlight = null;
-    }
+    updateOutlineHighlight();
   });
 
   console.log("PDF.js components initialized.");
   setStatus("Ready. Open a PDF file or enter a URL.");
+
+  // Deep links: ?file=<url>#page=12 opens a document at a given spot. The hash is read
+  // now, before PDFHistory takes over the URL.
+  const fileParam = new URLSearchParams(window.location.search).get('file');
+  if (fileParam && (fileParam.startsWith('http://') || fileParam.startsWith('https://'))) {
+    const hash = window.location.hash.substring(1);
+    if (hash) startupLink = { url: fileParam, hash };
+    urlInput.value = fileParam;
+    loadPdf(fileParam);
+  } else {
+    showLibrary();
+  }
 }
 
 // --- Outline Handling ---
@@ -202,113 +452,125 @@ async function fetchAndRenderOutline() {
   if (!currentPdfDocument) return;
 
   clearOutline(); // Clear previous outline
-  outlineDestMap = new Map(); // Reset page map
+  const index = createOutlineIndex<HTMLElement>();
+  outlineIndex = index;
 
+  const pdfDocument = currentPdfDocument;
   try {
-    outlineData = await currentPdfDocument.getOutline();
+    outlineData = await pdfDocument.getOutline();
+    if (pdfDocument !== currentPdfDocument) return; // Another document was loaded meanwhile
+    let isInferred = false;
     if (!outlineData || outlineData.length === 0) {
-      console.log("Document has no outline.");
-      outlineView.innerHTML = '<em>No outline available.</em>';
-      return;
+      console.log("Document has no outline, inferring one from the text.");
+      outlineView.innerHTML = '<em>No outline available. Inferring headings…</em>';
+      const inferred = await inferOutline(pdfDocument);
+      if (pdfDocument !== currentPdfDocument) return;
+      if (inferred.length === 0) {
+        outlineView.innerHTML = '<em>No outline available.</em>';
+        return;
+      }
+      outlineData = inferred.map(toOutlineNode);
+      isInferred = true;
     }
 
     console.log("Outline data fetched:", outlineData);
     const rootUl = document.createElement('ul');
     rootUl.className = 'outlineLevel';
-    // Start recursive rendering
-    await renderOutlineLevel(outlineData, rootUl);
+    // Show the tree right away, destinations resolve concurrently in the background
+    const resolutions: Promise<void>[] = [];
+    renderOutlineLevel(outlineData, rootUl, pdfDocument, index, resolutions);
+    outlineView.innerHTML = '';
+    if (isInferred) {
+      // Mark the outline as a best guess, it may miss or misplace headings
+      const notice = document.createElement('div');
+      notice.className = 'outlineNotice';
+      notice.textContent = 'Inferred from text: this PDF has no bookmarks';
+      outlineView.appendChild(notice);
+      rootUl.classList.add('inferred');
+    }
     outlineView.appendChild(rootUl);
 
+    await Promise.all(resolutions);
+    if (outlineIndex === index) updateOutlineHighlight();
+
   } catch (error) {
     console.error("Error fetching or rendering outline:", error);
     outlineView.innerHTML = '<em>Error loading outline.</em>';
+  } finally {
+    // Only a completely indexed outline is kept when switching tabs
+    if (pdfDocument === currentPdfDocument && outlineIndex === index) outlineDocument = pdfDocument;
   }
 }
 
-async function renderOutlineLevel(items: OutlineNode[], container: HTMLUListElement) {
-  if (!currentPdfDocument || !pdfLinkService || !outlineDestMap) return;
+// Detaches the rendered outline so it can be restored without fetching it again
+function saveOutline(): SavedOutline | null {
+  if (!currentPdfDocument || outlineDocument !== currentPdfDocument) return null; // Not complete yet
+  return {
+    nodes: Array.from(outlineView.childNodes),
+    data: outlineData,
+    index: outlineIndex,
+    highlight: lastOutlineHighlight,
+  };
+}
+
+function restoreOutline(saved: SavedOutline) {
+  clearOutline();
+  outlineView.replaceChildren(...saved.nodes);
+  outlineData = saved.data;
+  outlineIndex = saved.index;
+  lastOutlineHighlight = saved.highlight;
+  outlineDocument = currentPdfDocument;
+}
+
+// Renders `items` into `container` without waiting for their destinations.
+// Each destination is resolved concurrently and added to `index`; the
+// resolutions are collected in `resolutions`, in document order.
+function renderOutlineLevel(
+  items: OutlineNode[],
+  container: HTMLUListElement,
+  pdfDocument: PDFDocumentProxy,
+  index: OutlineIndex<HTMLElement>,
+  resolutions: Promise<void>[],
+) {
+  if (!primaryPane) return;
+  const pdfLinkService = primaryPane.linkService;
 
   for (const item of items) {
     const li = document.createElement('li');
     li.className = 'outlineItem';
 
     const a = document.createElement('a');
-    a.textContent = item.title || 'Untitled';
+    const title = document.createElement('span');
+    title.className = 'outlineTitle';
+    title.textContent = item.title || 'Untitled';
+    a.appendChild(title);
     if (item.bold) a.style.fontWeight = 'bold';
     if (item.italic) a.style.fontStyle = 'italic';
     // Note: item.color requires more complex handling to apply
 
-    let destinationPageIndex: number | null = null;
-    let destinationTop: number | null = null;
-
     if (item.dest) {
-      try {
-        // Resolve destination (string or array) to get page index
-        const explicitDest = typeof item.dest === 'string'
-          ? await currentPdfDocument.getDestination(item.dest)
-          : item.dest;
-
-        console.log(explicitDest);
-
-
-        if (Array.isArray(explicitDest) && explicitDest[0] && typeof explicitDest[0] === 'object' && explicitDest[0].num !== undefined) {
-          // Get page index (0-based)
-          destinationPageIndex = await currentPdfDocument.getPageIndex(explicitDest[0]); // Get page object to resolve ref
-
-          // Try to get 'top' coordinate, primarily from 'XYZ' type
-          if (explicitDest[1] && typeof explicitDest[1] === 'object' && explicitDest[1].name === 'XYZ') {
-             // explicitDest looks like [pageRef, {name: 'XYZ'}, left, top, zoom]
-             // The actual top value might be null if not specified
-             destinationTop = explicitDest[3] as number | null;
-             // PDF coordinates often measure from top-left, but viewer might use different origin.
-             // For 'XYZ', 'top' is usually distance from the *top* edge of the page.
-             // Higher 'top' values mean lower down the page.
-             // We might need to invert this if comparing with scroll position measuring from top.
-             // Let's assume for now higher value = lower on page.
-             // If scroll sync seems inverted, adjust here (e.g., pageHeight - top).
-          } else if (explicitDest[1] && typeof explicitDest[1] === 'object' && (explicitDest[1].name === 'FitV' || explicitDest[1].name === 'FitBV')) {
-             // For FitV/FitBV, the coordinate is the left edge, top is implicitly 0 (top edge)
-             destinationTop = 0;
-          } else if (explicitDest[1] && typeof explicitDest[1] === 'object' && (explicitDest[1].name === 'FitH' || explicitDest[1].name === 'FitBH')) {
-             // For FitH/FitBH, the coordinate is the top edge.
-             destinationTop = explicitDest[2] as number | null;
-          } else {
-             // For Fit, FitB, or unknown/unhandled types, we can't easily get a 'top' coord.
-             // Treat as top of the page for scroll sync purposes.
-             destinationTop = 0; // Default to top of page if no specific coord
-             console.log("Outline item type doesn't provide specific top coord:", item.title, explicitDest[1]?.name);
-          }
-        } else {
-          console.warn("Could not resolve destination page index for:", item.title, item.dest);
+      const dest = item.dest;
+      resolutions.push(indexOutlineItem(pdfDocument, index, li, a, dest, resolutions.length));
+
+      // Add click listener for navigation
+      a.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation(); // Prevent potential parent clicks
+        if (event.shiftKey) {
+          // Shift+click keeps this pane in place and shows the section in the split view
+          openDestinationInSplitView(dest);
+          return;
         }
-      } catch (destError) {
-        console.warn("Error resolving destination for:", item.title, destError);
-      }
+        console.log("Navigating to destination:", dest);
+        // Use goToDestination for both named and explicit destinations
+        pdfLinkService.goToDestination(dest)
+          .catch(navError => console.error("Navigation error:", navError));
 
-      if (destinationPageIndex !== null) {
-        // Store page index for scroll syncing
-        outlineDestMap.set(li, { pageIndex: destinationPageIndex, top: destinationTop });
-
-        // Add click listener for navigation
-        a.addEventListener('click', (event) => {
-          event.preventDefault();
-          event.stopPropagation(); // Prevent potential parent clicks
-          if (pdfLinkService && item.dest) {
-            console.log("Navigating to destination:", item.dest);
-            // Use goToDestination for both named and explicit destinations
-            pdfLinkService.goToDestination(item.dest)
-              .catch(navError => console.error("Navigation error:", navError));
-
-            // Immediately highlight clicked item (optional, scroll sync will catch up)
-            if (lastOutlineHighlight) lastOutlineHighlight.classList.remove('active');
-            li.classList.add('active');
-            lastOutlineHighlight = li;
-          }
-        });
-      } else {
-        a.style.cursor = 'default'; // Indicate non-clickable if no valid dest page
-        a.style.opacity = '0.7';
-      }
+        // Immediately highlight clicked item (optional, scroll sync will catch up)
+        if (lastOutlineHighlight) lastOutlineHighlight.classList.remove('active');
+        li.classList.add('active');
+        lastOutlineHighlight = li;
+      });
 
     } else if (item.url) {
       // Handle external URLs if needed (less common for internal outline)
@@ -328,64 +590,304 @@ async function renderOutlineLevel(items: OutlineNode[], container: HTMLUListElem
       const nestedUl = document.createElement('ul');
       nestedUl.className = 'outlineLevel';
       li.appendChild(nestedUl);
-      await renderOutlineLevel(item.items, nestedUl); // Await recursive calls
+      renderOutlineLevel(item.items, nestedUl, pdfDocument, index, resolutions);
+    }
+  }
+}
+
+// Resolves the destination of one outline item and records its position for scroll syncing
+async function indexOutlineItem(
+  pdfDocument: PDFDocumentProxy,
+  index: OutlineIndex<HTMLElement>,
+  li: HTMLElement,
+  a: HTMLAnchorElement,
+  dest: Array<any> | string,
+  order: number,
+) {
+  try {
+    const resolved = await resolveDestination(pdfDocument, dest);
+    if (resolved) {
+      addOutlinePosition(index, li, order, { pageIndex: resolved.pageIndex, left: resolved.left, top: resolved.top });
+      // Show the page as printed on it, e.g. "xii" in the front matter
+      const pageLabel = document.createElement('span');
+      pageLabel.className = 'outlinePageLabel';
+      pageLabel.textContent = await getPageLabel(pdfDocument, resolved.pageIndex);
+      a.appendChild(pageLabel);
+      return;
     }
+    console.warn("Could not resolve destination page index for:", li.querySelector('.outlineTitle')?.textContent, dest);
+  } catch (destError) {
+    console.warn("Error resolving destination for:", li.querySelector('.outlineTitle')?.textContent, destError);
   }
+  a.style.cursor = 'default'; // Indicate that the destination leads nowhere
+  a.style.opacity = '0.7';
+}
+
+/**
+ * Highlights the outline item of the section at the top of the viewport and
+ * keeps it visible in the sidebar.
+ */
+function updateOutlineHighlight() {
+  if (!outlineIndex || !currentLocation || !primaryPane) return;
+  const { pdfViewer } = primaryPane;
+  const pageIndex = currentLocation.pageNumber - 1; // First visible page
+  const pageView = pdfViewer.getPageView(pageIndex);
+  if (!pageView?.div) return;
+
+  // Top of the viewport measured from the top of the page, in the same pixels as getPageOffset.
+  // Navigating to an item puts it at the very top, so allow for rounding.
+  const offset = pdfViewer.container.scrollTop - pageView.div.offsetTop - pageView.div.clientTop + OUTLINE_SYNC_TOLERANCE;
+  const activeElement = findOutlineItemAt(outlineIndex, pageIndex, offset, getPageOffset);
+
+  if (activeElement && activeElement !== lastOutlineHighlight) {
+    if (lastOutlineHighlight) {
+      lastOutlineHighlight.classList.remove('active');
+    }
+    activeElement.classList.add('active');
+    // Scroll outline view to keep active item visible
+    activeElement.scrollIntoView({ block: 'nearest' });
+    lastOutlineHighlight = activeElement;
+    reportOutlineItem(activeElement.querySelector('.outlineTitle')?.textContent ?? null);
+  } else if (!activeElement && lastOutlineHighlight) {
+    // Scrolled before the first outline item
+    lastOutlineHighlight.classList.remove('active');
+    lastOutlineHighlight = null;
+    reportOutlineItem(null);
+  }
+}
+
+// How far down its page an outline position is displayed, in the primary pane's
+// current pixels. Follows the page's rotation, which may turn the PDF x-axis vertical.
+// Null, i.e. the top of the page, until the page view has a viewport.
+function getPageOffset(position: OutlinePosition): number | null {
+  const viewport = primaryPane?.pdfViewer.getPageView(position.pageIndex)?.viewport;
+  return viewport ? getViewportOffset(viewport, position.left, position.top) : null;
+}
+
+// Gives inferred headings the shape of a pdf.js outline item
+function toOutlineNode(item: InferredOutlineItem): OutlineNode {
+  return {
+    title: item.title,
+    bold: false,
+    italic: false,
+    color: null,
+    dest: item.dest,
+    url: null,
+    unsafeUrl: undefined,
+    newWindow: undefined,
+    items: item.items.map(toOutlineNode),
+  };
+}
+
+/**
+ * Returns the title of the outline section that contains the given position
+ * (0-based page index, PDF coordinates), or null if it precedes all sections.
+ */
+function getOutlineSectionTitle(pageIndex: number, x: number, y: number): string | null {
+  if (!outlineIndex) return null;
+  const offset = getPageOffset({ pageIndex, left: x, top: y }) ?? 0;
+  const element = findOutlineItemAt(outlineIndex, pageIndex, offset, getPageOffset);
+  return element?.querySelector('.outlineTitle')?.textContent ?? null;
 }
 
 function clearOutline() {
   outlineView.innerHTML = ''; // Clear previous content
   lastOutlineHighlight = null; // Reset highlight tracking
   outlineData = null;
-  outlineDestMap = null;
+  outlineIndex = null;
+  outlineDocument = null;
 }
 
 // --- Loading Function ---
-async function loadPdf(source: File | string) {
-  if (!pdfViewer || !eventBus) {
+// Opens a document in a new tab, or switches to its tab if it is already open.
+// Resolves to false if it couldn't be opened or loading was cancelled.
+async function loadPdf(source: File | string | LibraryEntry): Promise<boolean> {
+  if (!primaryPane) {
     showError("Viewer components not initialized.");
-    return;
+    return false;
   }
 
   setStatus("Loading PDF...");
   console.log("Opening PDF source:", source);
-  clearOutline(); // Clear outline when starting to load new PDF
-
-  // Clean up previous document
-  if (currentPdfDocument) {
-    await currentPdfDocument.destroy();
-    currentPdfDocument = null;
-    pdfViewer.setDocument(null as any);
-    pdfLinkService?.setDocument(null, null);
-  }
 
-  let loadingTask: pdfjsLib.PDFDocumentLoadingTask;
+  let request: DocumentRequest;
+  let librarySource: LibrarySource;
   if (source instanceof File) {
+    request = { type: 'file', file: source };
+    librarySource = { type: 'file', name: source.name };
+  } else if (typeof source === 'string') {
+    request = { type: 'url', url: source };
+    librarySource = { type: 'url', url: source };
+  } else if (source.source.type === 'url') {
+    // Library entry opened from a URL
+    request = { type: 'url', url: source.source.url };
+    librarySource = source.source;
+  } else {
+    // Library entry opened from a local file, bytes are cached in the library
     try {
-      const fileData = await source.arrayBuffer();
-      loadingTask = pdfjsLib.getDocument({ data: fileData });
+      const fileData = await loadLibraryFile(source);
+      if (!fileData) {
+        showError(`The cached copy of "${source.title}" is no longer available. Please open the file again.`);
+        return false;
+      }
+      request = { type: 'data', data: fileData, name: source.source.name };
+      librarySource = source.source;
     } catch (readError) {
-      showError(`Error reading file: ${readError instanceof Error ? readError.message : readError}`);
-      return;
+      showError(`Error reading cached file: ${readError instanceof Error ? readError.message : readError}`);
+      return false;
     }
-  } else {
-    loadingTask = pdfjsLib.getDocument(source);
   }
 
+  let opened: OpenedDocument | null;
   try {
-    currentPdfDocument = await loadingTask.promise;
-    console.log("PDF document loaded via getDocument");
-    pdfViewer.setDocument(currentPdfDocument);
-    // Outline fetching/rendering is now triggered by the 'documentload' event from eventBus
-
+    opened = await openDocument(request);
   } catch (error) {
-    let message = "Unknown error";
-    if (error instanceof Error) { message = error.message; }
-    else if (typeof error === 'string') { message = error; }
     console.error("Error loading PDF document:", error);
-    showError(`Failed to load PDF: ${message}`);
-    currentPdfDocument = null;
-    pdfViewer.setDocument(null as any);
+    showError(describeLoadError(error, request));
+    return false;
+  }
+  if (!opened) return false; // Cancelled
+  const { pdfDocument, fileData: cachedFileData } = opened;
+  console.log("PDF document loaded via getDocument");
+
+  // Compare mode is waiting for the other version: it is shown next to the current document instead of in a tab
+  if (isAwaitingComparison()) {
+    hideLibrary();
+    return compareWith(pdfDocument, librarySource);
+  }
+
+  // The same document opened twice: switch to its tab instead
+  const fingerprint = pdfDocument.fingerprints[0];
+  const existingTab = [...documentTabs.values()].find(tab => tab.pdfDocument.fingerprints[0] === fingerprint);
+  if (existingTab) {
+    await pdfDocument.destroy();
+    hideLibrary();
+    await activateTab(existingTab);
+    return true;
+  }
+
+  const tab: DocumentTab = { id: nextTabId++, pdfDocument, source: librarySource, position: null, outline: null };
+  documentTabs.set(tab.id, tab);
+  trackFormChanges(pdfDocument);
+  const tooltip = librarySource.type === 'file' ? librarySource.name : librarySource.url;
+  addTab(tab.id, await getDisplayTitle(pdfDocument, librarySource), tooltip);
+  await activateTab(tab, cachedFileData);
+  return true;
+}
+
+// --- Tab Handling ---
+// Shows the document of `tab` in the viewer. `fileData` is passed when the document was just opened from a local file.
+async function activateTab(tab: DocumentTab, fileData?: ArrayBuffer) {
+  if (!primaryPane || tab === activeTab) return;
+  const { pdfViewer } = primaryPane;
+
+  // Keep the view state of the tab being left
+  if (activeTab) {
+    activeTab.position = currentLocation;
+    activeTab.outline = saveOutline();
+  }
+  resetDocumentViews();
+
+  activeTab = tab;
+  setActiveTab(tab.id);
+  currentPdfDocument = tab.pdfDocument;
+  currentPdfSource = tab.source.type === 'file' ? tab.source.name : tab.source.url;
+  updateSaveButton();
+  hideLibrary();
+  // Shareable URL: ?file= names remote documents only, local files can't be linked to
+  updateFileQueryParam(tab.source.type === 'url' ? tab.source.url : null);
+  if (tab.pdfDocument.fingerprints[0]) {
+    pdfHistory?.initialize({ fingerprint: tab.pdfDocument.fingerprints[0], updateUrl: true });
+  }
+  // Record in the library and pick up the last reading position before pages initialize
+  const libraryPosition = await openLibraryDocument(tab.pdfDocument, tab.source, fileData);
+  if (activeTab !== tab) return; // Switched again meanwhile
+  pendingReadingPosition = tab.position ?? libraryPosition;
+  primaryPane.linkService.setDocument(tab.pdfDocument, null);
+  pdfViewer.setDocument(tab.pdfDocument);
+  setPageNavigationDocument(tab.pdfDocument);
+  setSplitViewDocument(tab.pdfDocument);
+  buildThumbnails(tab.pdfDocument);
+  loadDocumentAnnotations(tab.pdfDocument);
+  // The figure index is built on demand, unless its view is already open
+  if (!figuresView.classList.contains('hidden')) ensureFiguresIndexed();
+  if (!referencesView.classList.contains('hidden')) ensureReferencesIndexed();
+  // Outline fetching/rendering is now triggered by the 'documentload' event from eventBus
+}
+
+// Closes a tab and frees its document; the neighbouring tab takes its place
+async function closeTab(id: number) {
+  const tab = documentTabs.get(id);
+  if (!tab || !primaryPane) return;
+  if (hasUnsavedFormChanges(tab.pdfDocument)
+    && !window.confirm(`"${tab.source.type === 'file' ? tab.source.name : tab.source.url}" has form entries that were not saved. Close it anyway?`)) {
+    return;
+  }
+  untrackFormChanges(tab.pdfDocument);
+
+  const ids = [...documentTabs.keys()];
+  const index = ids.indexOf(id);
+  const nextId = ids[index + 1] ?? ids[index - 1];
+  documentTabs.delete(id);
+  removeTab(id);
+
+  if (tab === activeTab) {
+    activeTab = null;
+    const nextTab = nextId !== undefined ? documentTabs.get(nextId) : undefined;
+    if (nextTab) {
+      await activateTab(nextTab);
+    } else {
+      resetDocumentViews();
+      currentPdfDocument = null;
+      currentPdfSource = null;
+      updateSaveButton();
+      primaryPane.pdfViewer.setDocument(null as any);
+      primaryPane.linkService.setDocument(null, null);
+      setPageNavigationDocument(null);
+      setSplitViewDocument(null);
+      setActiveTab(null);
+      updateFileQueryParam(null);
+      setStatus('Ready.');
+      showLibrary();
+    }
+  }
+  await tab.pdfDocument.destroy();
+}
+
+// Clears everything shown for the current document before another one takes its place
+function resetDocumentViews() {
+  clearOutline();
+  clearThumbnails();
+  resetLinkPreview();
+  resetSearch();
+  clearAnnotations();
+  resetFigures();
+  resetReferences();
+  resetCompare();
+  hideDocumentProperties();
+  closeLibraryDocument();
+  pendingReadingPosition = null;
+  currentLocation = null;
+}
+
+// --- History Helpers ---
+// The hash of the link the viewer was opened with, if the first document to show is the one it names
+function takeStartupHash(): string | null {
+  if (!startupLink) return null;
+  const { url, hash } = startupLink;
+  startupLink = null;
+  return activeTab?.source.type === 'url' && activeTab.source.url === url ? hash : null;
+}
+
+function updateFileQueryParam(fileUrl: string | null) {
+  const url = new URL(window.location.href);
+  if (fileUrl) {
+    url.searchParams.set('file', fileUrl);
+  } else {
+    url.searchParams.delete('file');
+  }
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url.href);
   }
 }
 
@@ -394,7 +896,9 @@ function setStatus(message: string) { statusMessage.textContent = message; }
 function showError(message: string) { console.error("Viewer Error:", message); errorMessage.textContent = message; errorWrapper.hidden = false; setStatus("Error"); }
 function hideError() { errorWrapper.hidden = true; }
 
+// Reflects the zoom of the active pane
 function updateZoomControls(presetValue?: string) {
+  const pdfViewer = getActivePane()?.pdfViewer;
   if (!pdfViewer) return;
   let currentScale = presetValue || String(pdfViewer.currentScaleValue);
   const numericScale = parseFloat(currentScale);
@@ -418,34 +922,72 @@ fileInput.addEventListener('change', (event) => { hideError(); const target = ev
 // URL Input
 urlButton.addEventListener('click', () => { hideError(); const url = urlInput.value.trim(); if (url) { if (url.startsWith('http://') || url.startsWith('https://')) { loadPdf(url); } else { showError('Invalid URL. Please enter a valid HTTP/HTTPS URL.'); } } else { setStatus('Please enter a URL.'); } });
 urlInput.addEventListener('keypress', (event) => { if (event.key === 'Enter') { urlButton.click(); } });
-// Drag and Drop
+// Drag and Drop: several PDFs open in tabs, but compare mode takes only the first as the other version
 body.addEventListener('dragover', (event) => { event.preventDefault(); event.stopPropagation(); body.classList.add('dragging'); });
 body.addEventListener('dragleave', (event) => { if (event.relatedTarget === null || !body.contains(event.relatedTarget as Node)) { body.classList.remove('dragging'); } });
-body.addEventListener('drop', (event) => { event.preventDefault(); event.stopPropagation(); body.classList.remove('dragging'); hideError(); const files = event.dataTransfer?.files; const file = files?.[0]; if (file && file.type === 'application/pdf') { loadPdf(file); } else if (file) { showError('Invalid file type dropped. Please drop a PDF file.'); } else { const url = event.dataTransfer?.getData('URL') || event.dataTransfer?.getData('text/uri-list'); if (url && (url.startsWith('http://') || url.startsWith('https://')) && url.toLowerCase().endsWith('.pdf')) { urlInput.value = url; loadPdf(url); } else { setStatus('Could not handle dropped item. Drop a PDF file or URL.'); } } });
+body.addEventListener('drop', (event) => { event.preventDefault(); event.stopPropagation(); body.classList.remove('dragging'); hideError(); const files = event.dataTransfer?.files; const file = files?.[0]; if (file && file.type === 'application/pdf') { const pdfFiles = [...files].filter(droppedFile => droppedFile.type === 'application/pdf'); for (const droppedFile of isAwaitingComparison() ? pdfFiles.slice(0, 1) : pdfFiles) loadPdf(droppedFile); } else if (file) { showError('Invalid file type dropped. Please drop a PDF file.'); } else { const url = event.dataTransfer?.getData('URL') || event.dataTransfer?.getData('text/uri-list'); if (url && (url.startsWith('http://') || url.startsWith('https://')) && url.toLowerCase().endsWith('.pdf')) { urlInput.value = url; loadPdf(url); } else { setStatus('Could not handle dropped item. Drop a PDF file or URL.'); } } });
 // Zoom Controls
-zoomInButton.addEventListener('click', () => { if (pdfViewer) { pdfViewer.currentScale = pdfViewer.currentScale * 1.1; } });
-zoomOutButton.addEventListener('click', () => { if (pdfViewer) { pdfViewer.currentScale = pdfViewer.currentScale / 1.1; } });
-zoomSelect.addEventListener('change', () => { if (pdfViewer) { const selectedValue = zoomSelect.value; if (selectedValue === 'custom') { return; } pdfViewer.currentScaleValue = selectedValue; } });
+zoomInButton.addEventListener('click', () => { const pdfViewer = getActivePane()?.pdfViewer; if (pdfViewer) { pdfViewer.currentScale = pdfViewer.currentScale * 1.1; } });
+zoomOutButton.addEventListener('click', () => { const pdfViewer = getActivePane()?.pdfViewer; if (pdfViewer) { pdfViewer.currentScale = pdfViewer.currentScale / 1.1; } });
+zoomSelect.addEventListener('change', () => { const pdfViewer = getActivePane()?.pdfViewer; if (pdfViewer) { const selectedValue = zoomSelect.value; if (selectedValue === 'custom') { return; } pdfViewer.currentScaleValue = selectedValue; } });
+// History Navigation
+historyBackButton.addEventListener('click', () => pdfHistory?.back());
+historyForwardButton.addEventListener('click', () => pdfHistory?.forward());
+window.addEventListener('keydown', (event) => {
+  if (!event.altKey || event.ctrlKey || event.metaKey || event.shiftKey) return;
+  if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+  // Leave text fields their own word navigation
+  const target = event.target as HTMLElement;
+  if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+  event.preventDefault();
+  if (event.key === 'ArrowLeft') { pdfHistory?.back(); } else { pdfHistory?.forward(); }
+});
 // Error Close Button
 errorCloseButton.addEventListener('click', hideError);
 
 // Sidebar View Toggles
-viewOutlineButton.addEventListener('click', () => {
-  outlineView.classList.remove('hidden');
-  thumbnailView.classList.add('hidden');
-  viewOutlineButton.classList.add('toggled'); // Add 'toggled' class for styling if needed
-  viewThumbnailButton.classList.remove('toggled');
-});
+const sidebarViews: Array<[HTMLButtonElement, HTMLElement]> = [
+  [viewThumbnailButton, thumbnailView],
+  [viewOutlineButton, outlineView],
+  [viewSearchButton, searchResultsView],
+  [viewAnnotationsButton, annotationsView],
+  [viewFiguresButton, figuresView],
+  [viewReferencesButton, referencesView],
+  [viewChangesButton, compareView],
+];
+
+function showSidebarView(button: HTMLButtonElement, view: HTMLElement) {
+  for (const [otherButton, otherView] of sidebarViews) {
+    otherView.classList.toggle('hidden', otherView !== view);
+    otherButton.classList.toggle('toggled', otherButton === button); // 'toggled' class for styling
+  }
+}
+
+viewOutlineButton.addEventListener('click', () => showSidebarView(viewOutlineButton, outlineView));
 
 viewThumbnailButton.addEventListener('click', () => {
-  thumbnailView.classList.remove('hidden');
-  outlineView.classList.add('hidden');
-  viewThumbnailButton.classList.add('toggled');
-  viewOutlineButton.classList.remove('toggled');
-  // Add logic here later if/when thumbnail view is implemented
-  console.log("Thumbnail view selected (not implemented yet).");
+  showSidebarView(viewThumbnailButton, thumbnailView);
+  // Thumbnails render lazily once visible; bring the current page into view
+  scrollToCurrentThumbnail();
 });
 
+viewSearchButton.addEventListener('click', () => showSidebarView(viewSearchButton, searchResultsView));
+
+viewAnnotationsButton.addEventListener('click', () => showSidebarView(viewAnnotationsButton, annotationsView));
+
+viewFiguresButton.addEventListener('click', () => {
+  showSidebarView(viewFiguresButton, figuresView);
+  // Scanning every page is costly, so only index once the view is opened
+  ensureFiguresIndexed();
+});
+
+viewReferencesButton.addEventListener('click', () => {
+  showSidebarView(viewReferencesButton, referencesView);
+  ensureReferencesIndexed();
+});
+
+viewChangesButton.addEventListener('click', () => showSidebarView(viewChangesButton, compareView));
+
 // Set initial sidebar view (e.g., outline visible by default)
 document.addEventListener('DOMContentLoaded', () => {
   viewOutlineButton.click(); // Programmatically click outline button initially
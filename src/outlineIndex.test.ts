@@ -0,0 +1,111 @@
+import type { PageViewport, PDFDocumentProxy } from 'pdfjs-dist';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadFixture } from './__fixtures__/loadFixture';
+import { getViewportOffset, resolveDestination } from './destinations';
+import {
+  addOutlinePosition,
+  createOutlineIndex,
+  findOutlineItemAt,
+  type OutlineIndex,
+  type OutlinePosition,
+  type PageOffsetFunction,
+} from './outlineIndex';
+
+// sections.pdf has five 600 × 800 point pages, the third rotated by 90°. Its outline,
+// with the offsets of its items from the top of their page at scale 1:
+//   1 Introduction  page 0,  50
+//   1.1 Background  page 0, 400
+//   2 Method        page 1, 200
+//   2.1 Data        page 1, 200  (same spot as its parent)
+//   3 Results       page 2, 300  (rotated: PDF x runs down the page)
+//   3.1 Ablation    page 2, 450
+//   Appendix        page 3, whole page
+// Page 4 has no items.
+
+let pdfDocument: PDFDocumentProxy;
+let positions: Array<{ title: string; position: OutlinePosition }>;
+let viewports: PageViewport[];
+
+const getOffset: PageOffsetFunction = position =>
+  getViewportOffset(viewports[position.pageIndex]!, position.left, position.top);
+
+beforeAll(async () => {
+  pdfDocument = await loadFixture('sections.pdf');
+  const outline = await pdfDocument.getOutline();
+  positions = [];
+  for (const item of outline) {
+    const resolved = await resolveDestination(pdfDocument, item.dest!);
+    positions.push({ title: item.title, position: { pageIndex: resolved!.pageIndex, left: resolved!.left, top: resolved!.top } });
+  }
+  viewports = [];
+  for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+    viewports.push((await pdfDocument.getPage(pageNumber)).getViewport({ scale: 1 }));
+  }
+});
+
+afterAll(async () => {
+  await pdfDocument.destroy();
+});
+
+// Indexes the outline, adding items in the given order of their outline positions
+function buildIndex(additionOrder = positions.map((_, order) => order)): OutlineIndex<string> {
+  const index = createOutlineIndex<string>();
+  for (const order of additionOrder) {
+    const { title, position } = positions[order]!;
+    addOutlinePosition(index, title, order, position);
+  }
+  return index;
+}
+
+describe('findOutlineItemAt', () => {
+  it('returns null before the first item', () => {
+    expect(findOutlineItemAt(buildIndex(), 0, 10, getOffset)).toBeNull();
+  });
+
+  it('finds the last item starting at or above the offset on the same page', () => {
+    const index = buildIndex();
+    expect(findOutlineItemAt(index, 0, 50, getOffset)).toBe('1 Introduction');
+    expect(findOutlineItemAt(index, 0, 399, getOffset)).toBe('1 Introduction');
+    expect(findOutlineItemAt(index, 0, 400, getOffset)).toBe('1.1 Background');
+  });
+
+  it('continues the section of an earlier page above the first item of a page', () => {
+    const index = buildIndex();
+    expect(findOutlineItemAt(index, 1, 100, getOffset)).toBe('1.1 Background');
+    expect(findOutlineItemAt(index, 2, 0, getOffset)).toBe('2.1 Data');
+  });
+
+  it('picks the later item when two start at the same spot', () => {
+    expect(findOutlineItemAt(buildIndex(), 1, 200, getOffset)).toBe('2.1 Data');
+  });
+
+  it('orders items on a rotated page by where they are displayed', () => {
+    const index = buildIndex();
+    expect(findOutlineItemAt(index, 2, 350, getOffset)).toBe('3 Results');
+    expect(findOutlineItemAt(index, 2, 450, getOffset)).toBe('3.1 Ablation');
+  });
+
+  it('starts items that point at a whole page at its top', () => {
+    expect(findOutlineItemAt(buildIndex(), 3, 0, getOffset)).toBe('Appendix');
+  });
+
+  it('carries the last section over pages without items', () => {
+    expect(findOutlineItemAt(buildIndex(), 4, 500, getOffset)).toBe('Appendix');
+  });
+
+  it('gives the same results whatever order positions are added in', () => {
+    const index = buildIndex([6, 2, 0, 5, 3, 1, 4]);
+    expect(findOutlineItemAt(index, 0, 400, getOffset)).toBe('1.1 Background');
+    expect(findOutlineItemAt(index, 1, 200, getOffset)).toBe('2.1 Data');
+    expect(findOutlineItemAt(index, 2, 350, getOffset)).toBe('3 Results');
+  });
+
+  it('continues from the lowest item of the previous page, not the last one in outline order', () => {
+    // Positions measured directly in offsets: larger is further down
+    const byTop: PageOffsetFunction = position => position.top;
+    const index = createOutlineIndex<string>();
+    addOutlinePosition(index, 'lower', 0, { pageIndex: 0, left: null, top: 500 });
+    addOutlinePosition(index, 'upper', 1, { pageIndex: 0, left: null, top: 100 });
+    expect(findOutlineItemAt(index, 1, 0, byTop)).toBe('lower');
+  });
+});
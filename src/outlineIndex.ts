@@ -0,0 +1,100 @@
+// --- Type Aliases ---
+// Where an outline item points, in PDF coordinates; see ResolvedDestination
+export type OutlinePosition = {
+  pageIndex: number;
+  left: number | null;
+  top: number | null;
+};
+
+type OutlineIndexEntry<T> = OutlinePosition & {
+  item: T;
+  order: number; // Position of the item in the outline, breaks ties
+};
+
+/**
+ * Outline positions sorted by page, for finding the section that contains a
+ * point without scanning every item. Positions may be added in any order,
+ * e.g. as their destinations resolve; the index sorts itself when queried.
+ */
+export type OutlineIndex<T> = {
+  entries: OutlineIndexEntry<T>[];
+  isSorted: boolean;
+};
+
+/**
+ * Returns how far down its page a position appears, or null for the page as a
+ * whole. Only compared between positions on the same page.
+ */
+export type PageOffsetFunction = (position: OutlinePosition) => number | null;
+
+export function createOutlineIndex<T>(): OutlineIndex<T> {
+  return { entries: [], isSorted: true };
+}
+
+/**
+ * Adds `item`, the `order`th item of the outline in document order.
+ */
+export function addOutlinePosition<T>(index: OutlineIndex<T>, item: T, order: number, position: OutlinePosition) {
+  index.entries.push({ ...position, item, order });
+  index.isSorted = false;
+}
+
+/**
+ * Finds the item whose section contains the point `offset` down page
+ * `pageIndex`: the last one in reading order that starts at or above it.
+ * Returns null if the point precedes every item.
+ */
+export function findOutlineItemAt<T>(index: OutlineIndex<T>, pageIndex: number, offset: number, getOffset: PageOffsetFunction): T | null {
+  const { entries } = index;
+  if (!index.isSorted) {
+    entries.sort((a, b) => a.pageIndex - b.pageIndex || a.order - b.order);
+    index.isSorted = true;
+  }
+
+  // Entries on pages up to `pageIndex` are entries[0, end)
+  const end = lowerBound(entries, pageIndex + 1);
+  const onPage = findLastOnPage(entries, end, pageIndex, offset, getOffset);
+  if (onPage) return onPage.item;
+
+  // Nothing starts above the point on its page: the section continues from an earlier page
+  const start = lowerBound(entries, pageIndex);
+  const previous = entries[start - 1];
+  if (!previous) return null;
+  return findLastOnPage(entries, start, previous.pageIndex, Infinity, getOffset)?.item ?? null;
+}
+
+// --- Search Helpers ---
+// Index of the first entry on `pageIndex` or a later page
+function lowerBound<T>(entries: OutlineIndexEntry<T>[], pageIndex: number): number {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (entries[middle]!.pageIndex < pageIndex) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+// Among the entries on `pageIndex` (which end at `end`), the lowest one starting at or above `offset`.
+// Ties go to the later (deeper) item in document order.
+function findLastOnPage<T>(entries: OutlineIndexEntry<T>[], end: number, pageIndex: number, offset: number, getOffset: PageOffsetFunction): OutlineIndexEntry<T> | null {
+  let best: OutlineIndexEntry<T> | null = null;
+  let bestOffset = -Infinity;
+  for (let i = end - 1; i >= 0; i--) {
+    const entry = entries[i]!;
+    if (entry.pageIndex !== pageIndex) break;
+    // An item pointing at the page as a whole starts at its top
+    const entryOffset = getOffset(entry) ?? -Infinity;
+    if (entryOffset > offset) continue;
+    // Walking backwards, so only a strictly lower start replaces an equal one
+    if (!best || entryOffset > bestOffset) {
+      best = entry;
+      bestOffset = entryOffset;
+    }
+  }
+  return best;
+}
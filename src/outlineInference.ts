@@ -0,0 +1,149 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { getPageLines, type TextLine } from './pageText';
+
+// --- Constants ---
+const MAX_SCANNED_PAGES = 400; // Keep inference bounded on very long documents
+const MAX_HEADING_CHARS = 100;
+const LARGER_THAN_BODY = 1.08; // Font size ratio that counts as "larger than body text"
+
+// "3.2 Method", "3.2. Method", "A.1 Proofs"
+const NUMBERED_HEADING = /^((?:\d+|[A-Z])(?:\.\d+){0,3})\.?\s+(\p{Lu}.*)$/u;
+// "IV. EXPERIMENTS" (IEEE style top-level sections)
+const ROMAN_HEADING = /^([IVX]+)\.\s+(\p{Lu}[\p{Lu}\d\s:,&-]+)$/u;
+// Section names common to most papers, optionally numbered
+const COMMON_SECTION = /^(?:(?:\d+|[IVX]+)\.?\s+)?(abstract|introduction|related work|background|preliminaries|method(?:s|ology)?|approach|experiments?|evaluation|results|discussion|limitations|conclusions?|future work|acknowledge?ments?|references|bibliography|appendix(?:\s+[A-Z])?|appendices|supplementary material)$/i;
+// Table of contents entries have dot leaders ("1 Introduction .... 3")
+const TOC_ENTRY = /(?:\.\s*){3,}/;
+// Highest plausible top-level section number; larger ones are years ("2023 IEEE Conference …") or counts
+const MAX_SECTION_NUMBER = 50;
+
+// --- Type Aliases ---
+export type InferredOutlineItem = {
+  title: string;
+  dest: Array<any>; // Explicit XYZ destination
+  items: InferredOutlineItem[];
+};
+
+type HeadingCandidate = {
+  title: string;
+  level: number; // 1-based depth
+  pageIndex: number;
+  x: number;
+  top: number; // PDF y-coordinate of the top of the heading line
+};
+
+/**
+ * Infers a heading hierarchy for documents without bookmarks from the text
+ * layer: numbering patterns ("3.2 Method"), common section names and text that
+ * is set larger or in a different font than the body text.
+ */
+export async function inferOutline(pdfDocument: PDFDocumentProxy): Promise<InferredOutlineItem[]> {
+  const pageCount = Math.min(pdfDocument.numPages, MAX_SCANNED_PAGES);
+  const pages: TextLine[][] = [];
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    try {
+      pages.push((await getPageLines(pdfDocument, pageIndex)).lines);
+    } catch (error) {
+      console.warn(`Could not read text of page ${pageIndex + 1}:`, error);
+      pages.push([]);
+    }
+  }
+
+  const body = findBodyStyle(pages);
+  if (!body) return [];
+  const headings = findHeadings(pages, body);
+
+  // Build explicit destinations so the outline renders like a real one
+  const pageRefs = new Map<number, any>();
+  for (const heading of headings) {
+    if (!pageRefs.has(heading.pageIndex)) {
+      pageRefs.set(heading.pageIndex, (await pdfDocument.getPage(heading.pageIndex + 1)).ref);
+    }
+  }
+  return buildTree(headings, pageRefs);
+}
+
+// The most common font size and font, weighted by amount of text
+function findBodyStyle(pages: TextLine[][]): { size: number; fontName: string } | null {
+  const sizeWeights = new Map<number, number>();
+  const fontWeights = new Map<string, number>();
+  for (const line of pages.flat()) {
+    const size = Math.round(line.height * 2) / 2;
+    sizeWeights.set(size, (sizeWeights.get(size) ?? 0) + line.text.length);
+    fontWeights.set(line.fontName, (fontWeights.get(line.fontName) ?? 0) + line.text.length);
+  }
+  const mostCommon = <K>(weights: Map<K, number>): K | undefined =>
+    [...weights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  const size = mostCommon(sizeWeights);
+  const fontName = mostCommon(fontWeights);
+  if (size === undefined || fontName === undefined) return null;
+  return { size, fontName };
+}
+
+function findHeadings(pages: TextLine[][], body: { size: number; fontName: string }): HeadingCandidate[] {
+  const headings: HeadingCandidate[] = [];
+  const seenTitles = new Set<string>();
+  let lastTopLevelNumber = 0;
+
+  pages.forEach((lines, pageIndex) => {
+    for (const line of lines) {
+      const text = line.text.replace(/\s+/g, ' ').trim();
+      if (text.length < 2 || text.length > MAX_HEADING_CHARS || TOC_ENTRY.test(text)) continue;
+
+      const standsOut = line.height >= body.size * LARGER_THAN_BODY || line.fontName !== body.fontName;
+      const isNotSmaller = line.height >= body.size * 0.95;
+      let level: number | null = null;
+
+      const commonMatch = COMMON_SECTION.exec(text);
+      const numberedMatch = NUMBERED_HEADING.exec(text);
+      const romanMatch = ROMAN_HEADING.exec(text);
+
+      if (commonMatch && isNotSmaller && (standsOut || text === text.toUpperCase())) {
+        level = numberedMatch ? numberedMatch[1]!.split('.').length : 1;
+      } else if (numberedMatch && standsOut && isNotSmaller && !/[.;,]$/.test(text)) {
+        const numbering = numberedMatch[1]!;
+        level = numbering.split('.').length;
+        // Top-level section numbers only grow; anything else is a list item or equation
+        const topLevel = parseInt(numbering, 10);
+        if (!isNaN(topLevel)) {
+          if (topLevel > MAX_SECTION_NUMBER) continue;
+          if (level === 1 && topLevel < lastTopLevelNumber) continue;
+          if (level === 1) lastTopLevelNumber = topLevel;
+        }
+      } else if (romanMatch && standsOut) {
+        level = 1;
+      }
+      if (level === null) continue;
+
+      // Running heads repeat section titles on every page; keep the first occurrence
+      const key = text.toLowerCase();
+      if (seenTitles.has(key)) continue;
+      seenTitles.add(key);
+
+      headings.push({ title: text, level, pageIndex, x: line.x, top: line.y + line.height });
+    }
+  });
+  return headings;
+}
+
+function buildTree(headings: HeadingCandidate[], pageRefs: Map<number, any>): InferredOutlineItem[] {
+  const root: InferredOutlineItem[] = [];
+  // Stack of open items with their levels; the last one is the current parent
+  const stack: Array<{ level: number; item: InferredOutlineItem }> = [];
+
+  for (const heading of headings) {
+    const item: InferredOutlineItem = {
+      title: heading.title,
+      dest: [pageRefs.get(heading.pageIndex), { name: 'XYZ' }, heading.x, heading.top, null],
+      items: [],
+    };
+    while (stack.length > 0 && stack[stack.length - 1]!.level >= heading.level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    (parent ? parent.item.items : root).push(item);
+    stack.push({ level: heading.level, item });
+  }
+  return root;
+}
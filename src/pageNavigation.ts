@@ -0,0 +1,113 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { EventBus, PDFViewer } from 'pdfjs-dist/web/pdf_viewer.mjs';
+import { getPageLabels } from './documentInfo';
+
+// --- Type Aliases ---
+export type PageNavigationOptions = {
+  eventBus: EventBus;
+  pdfViewer: PDFViewer;
+  setStatus: (message: string) => void;
+  elements: {
+    pageInput: HTMLInputElement;
+    pageCount: HTMLElement; // Shows "current / total"
+  };
+};
+
+// --- Module State ---
+let options: PageNavigationOptions | null = null;
+let pageLabels: string[] | null = null; // Labels of the current document, if it defines any
+let labelsDocument: PDFDocumentProxy | null = null; // Document the labels belong to
+
+/**
+ * Wires the toolbar page field. It accepts page numbers as well as the
+ * document's page labels ("iv", "A-3") and follows the current page.
+ */
+export function initPageNavigation(navigationOptions: PageNavigationOptions) {
+  options = navigationOptions;
+  const { eventBus, elements } = navigationOptions;
+
+  elements.pageInput.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') {
+      if (!goToPage(elements.pageInput.value)) {
+        navigationOptions.setStatus(`There is no page "${elements.pageInput.value.trim()}".`);
+      }
+      elements.pageInput.select();
+    } else if (event.key === 'Escape') {
+      updatePageField();
+      elements.pageInput.blur();
+    }
+  });
+  elements.pageInput.addEventListener('focus', () => elements.pageInput.select());
+  elements.pageInput.addEventListener('blur', () => updatePageField());
+
+  eventBus.on('pagechanging', () => updatePageField());
+  eventBus.on('pagesinit', () => updatePageField());
+}
+
+/**
+ * Loads the page labels of a newly shown document.
+ */
+export async function setPageNavigationDocument(pdfDocument: PDFDocumentProxy | null) {
+  labelsDocument = pdfDocument;
+  pageLabels = null;
+  options?.pdfViewer.setPageLabels(null);
+  updatePageField();
+  if (!pdfDocument) return;
+
+  const labels = await getPageLabels(pdfDocument);
+  if (labelsDocument !== pdfDocument || !options) return; // Another document was shown meanwhile
+  pageLabels = labels;
+  // Lets the viewer report labels in its 'pagechanging' events too
+  options.pdfViewer.setPageLabels(labels);
+  updatePageField();
+}
+
+// --- Page Field ---
+// The 0-based index of the page with the given label or number, or null if there is none.
+// Labels win over numbers, so in a document labelled "i, ii, 1, 2" the input "1" is the third page.
+function findPageIndex(input: string, pageCount: number): number | null {
+  const value = input.trim();
+  if (!value) return null;
+  if (pageLabels) {
+    const index = pageLabels.indexOf(value);
+    if (index >= 0) return index;
+    const caseInsensitiveIndex = pageLabels.findIndex(label => label.toLowerCase() === value.toLowerCase());
+    if (caseInsensitiveIndex >= 0) return caseInsensitiveIndex;
+  }
+  if (!/^\d+$/.test(value)) return null;
+  const pageNumber = Number(value);
+  return pageNumber >= 1 && pageNumber <= pageCount ? pageNumber - 1 : null;
+}
+
+/**
+ * Shows the page with the given label or number. Returns false if there is no
+ * such page.
+ */
+export function goToPage(input: string): boolean {
+  if (!options) return false;
+  const { pdfViewer } = options;
+  const pageIndex = pdfViewer.pagesCount > 0 ? findPageIndex(input, pdfViewer.pagesCount) : null;
+  if (pageIndex !== null) pdfViewer.currentPageNumber = pageIndex + 1;
+  updatePageField();
+  return pageIndex !== null;
+}
+
+function updatePageField() {
+  if (!options) return;
+  const { pdfViewer, elements } = options;
+  const total = pdfViewer.pagesCount;
+  elements.pageInput.disabled = total === 0;
+  if (total === 0) {
+    elements.pageInput.value = '';
+    elements.pageCount.textContent = '';
+    return;
+  }
+
+  const pageNumber = pdfViewer.currentPageNumber;
+  // Don't overwrite what the user is typing
+  if (document.activeElement !== elements.pageInput) {
+    elements.pageInput.value = pageLabels?.[pageNumber - 1] ?? String(pageNumber);
+  }
+  // With labels the field shows the label, so also give the physical page
+  elements.pageCount.textContent = pageLabels ? `(${pageNumber} / ${total})` : `/ ${total}`;
+}
@@ -0,0 +1,42 @@
+import type { PageViewport, PDFPageProxy, RenderTask } from 'pdfjs-dist';
+
+/**
+ * Returns a viewport of `page` scaled to the given CSS width.
+ */
+export function getSnapshotViewport(page: PDFPageProxy, width: number): PageViewport {
+  const scale = width / page.getViewport({ scale: 1 }).width;
+  return page.getViewport({ scale });
+}
+
+/**
+ * Renders the horizontal band of `viewport` starting at `cropTop` (viewport
+ * CSS pixels, top-left origin) into a new canvas `cropHeight` pixels tall.
+ * The band is clamped to the page.
+ */
+export function renderViewportCrop(page: PDFPageProxy, viewport: PageViewport, cropTop: number, cropHeight: number): { canvas: HTMLCanvasElement; renderTask: RenderTask } {
+  const height = Math.min(cropHeight, viewport.height);
+  const top = Math.max(0, Math.min(cropTop, viewport.height - height));
+
+  // Shift the viewport so the crop region starts at the canvas origin
+  const croppedViewport = page.getViewport({ scale: viewport.scale, offsetY: -top });
+  const outputScale = window.devicePixelRatio || 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width * outputScale);
+  canvas.height = Math.floor(height * outputScale);
+  canvas.style.width = `${Math.floor(viewport.width)}px`;
+  canvas.style.height = `${Math.floor(height)}px`;
+
+  const renderTask = page.render({
+    canvas,
+    viewport: croppedViewport,
+    transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+  });
+  return { canvas, renderTask };
+}
+
+/**
+ * True for the error pdf.js raises when a render task is cancelled.
+ */
+export function isRenderingCancelled(error: unknown): boolean {
+  return (error as Error)?.name === 'RenderingCancelledException';
+}
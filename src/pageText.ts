@@ -0,0 +1,95 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { normalizeGlyphs } from './textCleanup';
+
+// --- Type Aliases ---
+// A visual line of text, assembled from consecutive text items on the same baseline
+export type TextLine = {
+  text: string;
+  x: number; // PDF x-coordinate of the line start
+  y: number; // PDF y-coordinate of the baseline
+  width: number; // Horizontal extent in PDF units
+  height: number; // Largest font height on the line
+  fontName: string; // Font of the first non-blank item
+  items: TextItem[];
+};
+
+export type PageLines = {
+  pageIndex: number; // 0-based
+  width: number; // Page width in PDF units (unrotated)
+  height: number; // Page height in PDF units (unrotated)
+  lines: TextLine[];
+};
+
+// --- Constants ---
+const SAME_LINE_TOLERANCE = 0.5; // Fraction of the font height two baselines may differ by
+const WORD_GAP = 0.15; // Fraction of the font height treated as a word gap between items
+
+// Line caches per document; entries disappear with the document
+const lineCache = new WeakMap<PDFDocumentProxy, Map<number, Promise<PageLines>>>();
+
+/**
+ * Returns the text of a page grouped into visual lines, in content stream order.
+ * Results are cached per document.
+ */
+export function getPageLines(pdfDocument: PDFDocumentProxy, pageIndex: number): Promise<PageLines> {
+  let documentCache = lineCache.get(pdfDocument);
+  if (!documentCache) {
+    documentCache = new Map();
+    lineCache.set(pdfDocument, documentCache);
+  }
+  let pageLines = documentCache.get(pageIndex);
+  if (!pageLines) {
+    pageLines = extractPageLines(pdfDocument, pageIndex);
+    documentCache.set(pageIndex, pageLines);
+    // Don't cache failures, a later call may succeed
+    pageLines.catch(() => documentCache!.delete(pageIndex));
+  }
+  return pageLines;
+}
+
+async function extractPageLines(pdfDocument: PDFDocumentProxy, pageIndex: number): Promise<PageLines> {
+  const page = await pdfDocument.getPage(pageIndex + 1);
+  const textContent = await page.getTextContent();
+  const [x1, y1, x2, y2] = page.view as [number, number, number, number];
+
+  const lines: TextLine[] = [];
+  let line: TextLine | null = null;
+  let breakAfterPrevious = false;
+
+  for (const item of textContent.items) {
+    if (!('str' in item)) continue; // Skip marked content entries
+    const x = item.transform[4];
+    const y = item.transform[5];
+    const height = item.height || Math.abs(item.transform[3]);
+
+    const startsNewLine = !line || breakAfterPrevious ||
+      Math.abs(y - line.y) > Math.max(line.height, height) * SAME_LINE_TOLERANCE;
+
+    if (item.str.length > 0) {
+      if (startsNewLine || !line) {
+        line = { text: item.str, x, y, width: item.width, height, fontName: item.fontName, items: [item] };
+        lines.push(line);
+      } else {
+        // Insert a space if the items are visibly apart and neither brings its own
+        const lineEnd = line.x + line.width;
+        const needsSpace = x - lineEnd > height * WORD_GAP && !/\s$/.test(line.text) && !/^\s/.test(item.str);
+        line.text += (needsSpace ? ' ' : '') + item.str;
+        line.width = Math.max(line.width, x + item.width - line.x);
+        line.height = Math.max(line.height, height);
+        if (!line.text.trim() || !line.fontName) line.fontName = item.fontName;
+        line.items.push(item);
+      }
+    }
+    breakAfterPrevious = item.hasEOL;
+  }
+
+  return {
+    pageIndex,
+    width: x2 - x1,
+    height: y2 - y1,
+    lines: lines
+      .filter(l => l.text.trim().length > 0)
+      .map(l => ({ ...l, text: normalizeGlyphs(l.text) })),
+  };
+}
@@ -0,0 +1,397 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { PDFLinkService } from 'pdfjs-dist/web/pdf_viewer.mjs';
+import { parseReference, toBibTeX, toCslJson, type ParsedReference } from './bibliography';
+import { resolveDestination, type PdfDestination, type ResolvedDestination } from './destinations';
+import { getDocumentTitle } from './documentInfo';
+import { downloadFile, toFileName } from './download';
+import { getPageLines, type TextLine } from './pageText';
+import { appendLine } from './textCleanup';
+
+// --- Constants ---
+const BIBLIOGRAPHY_HEADING = /^(?:(?:\d+|[IVX]+)\.?\s+)?(?:references|bibliography|works cited|literature cited|references and notes)$/i;
+// Appendices usually follow the bibliography
+const BIBLIOGRAPHY_END = /^(?:(?:[A-Z]|\d+)\.?\s+)?(?:appendix|appendices|supplementary|supplemental)\b/i;
+const BRACKET_LABEL = /^\[([^\]]{1,24})\]\s*/; // "[12]", "[Smi20]"
+const NUMBER_LABEL = /^(\d{1,3})\.\s+/; // "12. "
+const PAGE_NUMBER_LINE = /^\d{1,4}$/;
+const HANGING_INDENT_TOLERANCE = 2; // PDF units a line may sit right of the column edge and still start an entry
+const MAX_CITATION_DISTANCE = 40; // PDF units between a link destination and the entry it points at
+
+// --- Type Aliases ---
+export type Citation = {
+  pageIndex: number; // 0-based page of the citing link
+  rect: [number, number, number, number]; // Link rectangle in PDF coordinates
+};
+
+export type ReferenceEntry = ParsedReference & {
+  pageIndex: number; // 0-based page the entry starts on
+  x: number; // PDF x-coordinate of the entry start
+  top: number; // PDF y-coordinate of the top of its first line
+  citations: Citation[];
+};
+
+export type ReferencesOptions = {
+  linkService: PDFLinkService;
+  getDocument: () => PDFDocumentProxy | null;
+  // File name or URL the current document was opened from
+  getSource: () => string | null;
+  setStatus: (message: string) => void;
+  elements: {
+    referencesList: HTMLElement;
+    exportBibtexButton: HTMLButtonElement;
+    exportCslJsonButton: HTMLButtonElement;
+  };
+};
+
+// A bibliography line with the page it's on
+type BibliographyLine = {
+  line: TextLine;
+  pageIndex: number;
+  column: number; // 0 for the left half of the page, 1 for the right
+};
+
+// The parts of a pdf.js annotation the citation links are read from
+type LinkAnnotationData = {
+  subtype: string;
+  dest?: PdfDestination | null;
+  rect: [number, number, number, number];
+};
+
+// --- Module State ---
+let options: ReferencesOptions | null = null;
+let indexedDocument: PDFDocumentProxy | null = null; // Document the entries below belong to
+let entries: ReferenceEntry[] = [];
+let scanGeneration = 0; // Incremented on reset so a running scan can bail out
+let scanPromise: Promise<void> | null = null; // Scan of indexedDocument, running or finished
+
+/**
+ * Sets up the references view and its export buttons.
+ */
+export function initReferences(referencesOptions: ReferencesOptions) {
+  options = referencesOptions;
+  const { elements } = referencesOptions;
+
+  elements.exportBibtexButton.addEventListener('click', () => {
+    exportReferences('bibtex').catch(error => console.error("Error exporting references:", error));
+  });
+  elements.exportCslJsonButton.addEventListener('click', () => {
+    exportReferences('csl-json').catch(error => console.error("Error exporting references:", error));
+  });
+}
+
+/**
+ * Clears the reference list. Called when the document is replaced.
+ */
+export function resetReferences() {
+  scanGeneration++;
+  indexedDocument = null;
+  scanPromise = null;
+  entries = [];
+  if (options) options.elements.referencesList.innerHTML = '';
+}
+
+/**
+ * Locates and parses the bibliography of the current document unless that was
+ * already done, then links the entries to the in-text citations pointing at them.
+ * Resolves once the scan, possibly started earlier, has finished.
+ */
+export function ensureReferencesIndexed(): Promise<void> {
+  const pdfDocument = options?.getDocument();
+  if (!pdfDocument) return Promise.resolve();
+  if (pdfDocument === indexedDocument && scanPromise) return scanPromise;
+
+  resetReferences();
+  indexedDocument = pdfDocument;
+  scanPromise = scanReferences(pdfDocument, scanGeneration);
+  return scanPromise;
+}
+
+async function scanReferences(pdfDocument: PDFDocumentProxy, generation: number) {
+  if (!options) return;
+  const { referencesList } = options.elements;
+  referencesList.innerHTML = '<em>Looking for the bibliography…</em>';
+
+  const lines = await findBibliographyLines(pdfDocument, generation);
+  if (generation !== scanGeneration) return; // Document changed meanwhile
+  entries = splitEntries(lines);
+  if (entries.length === 0) {
+    referencesList.innerHTML = '<em>No bibliography found.</em>';
+    return;
+  }
+  renderReferenceList();
+
+  await linkCitations(pdfDocument, generation);
+  if (generation !== scanGeneration) return;
+  renderReferenceList();
+}
+
+// --- Bibliography Detection ---
+// Searches backwards from the last page for the bibliography heading and returns the lines after it
+async function findBibliographyLines(pdfDocument: PDFDocumentProxy, generation: number): Promise<BibliographyLine[]> {
+  let startPage = -1;
+  let startLine = -1;
+  for (let pageIndex = pdfDocument.numPages - 1; pageIndex >= 0 && startPage < 0; pageIndex--) {
+    const { lines } = await readPageLines(pdfDocument, pageIndex);
+    if (generation !== scanGeneration) return [];
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (BIBLIOGRAPHY_HEADING.test(lines[i]!.text.trim())) {
+        startPage = pageIndex;
+        startLine = i + 1;
+        break;
+      }
+    }
+  }
+  if (startPage < 0) return [];
+
+  const result: BibliographyLine[] = [];
+  for (let pageIndex = startPage; pageIndex < pdfDocument.numPages; pageIndex++) {
+    const { lines, width } = await readPageLines(pdfDocument, pageIndex);
+    if (generation !== scanGeneration) return [];
+    for (const line of lines.slice(pageIndex === startPage ? startLine : 0)) {
+      const text = line.text.trim();
+      if (BIBLIOGRAPHY_END.test(text)) return result;
+      if (PAGE_NUMBER_LINE.test(text)) continue;
+      result.push({ line, pageIndex, column: line.x < width / 2 ? 0 : 1 });
+    }
+  }
+  return result;
+}
+
+async function readPageLines(pdfDocument: PDFDocumentProxy, pageIndex: number) {
+  try {
+    return await getPageLines(pdfDocument, pageIndex);
+  } catch (error) {
+    console.warn(`Could not read text of page ${pageIndex + 1}:`, error);
+    return { pageIndex, width: 0, height: 0, lines: [] };
+  }
+}
+
+// Groups bibliography lines into entries, by label ("[12]", "12.") or by hanging indent
+function splitEntries(lines: BibliographyLine[]): ReferenceEntry[] {
+  if (lines.length === 0) return [];
+
+  const firstText = lines[0]!.line.text.trim();
+  const labelPattern = [BRACKET_LABEL, NUMBER_LABEL].find(pattern => pattern.test(firstText));
+  const startsEntry = labelPattern
+    ? (line: BibliographyLine) => labelPattern.test(line.line.text.trim())
+    : hangingIndentStarts(lines);
+
+  const found: ReferenceEntry[] = [];
+  let text = '';
+  let first: BibliographyLine | null = null;
+  const flush = () => {
+    if (!first || !text.trim()) return;
+    const labelMatch = labelPattern?.exec(text.trim());
+    const label = labelMatch ? labelMatch[0].trim() : null;
+    const body = labelMatch ? text.trim().slice(labelMatch[0].length) : text;
+    found.push({
+      ...parseReference(body, label),
+      pageIndex: first.pageIndex,
+      x: first.line.x,
+      top: first.line.y + first.line.height,
+      citations: [],
+    });
+  };
+
+  for (const bibliographyLine of lines) {
+    if (startsEntry(bibliographyLine)) {
+      flush();
+      first = bibliographyLine;
+      text = '';
+    }
+    if (!first) continue; // Text before the first entry
+    text = appendLine(text, bibliographyLine.line.text.trim());
+  }
+  flush();
+  return found;
+}
+
+// In author-year styles continuation lines are indented relative to the column edge
+function hangingIndentStarts(lines: BibliographyLine[]): (line: BibliographyLine) => boolean {
+  const columnEdges = new Map<string, number>();
+  const columnKey = (line: BibliographyLine) => `${line.pageIndex}:${line.column}`;
+  for (const line of lines) {
+    const key = columnKey(line);
+    columnEdges.set(key, Math.min(columnEdges.get(key) ?? Infinity, line.line.x));
+  }
+  const isOutdented = (line: BibliographyLine) => line.line.x <= columnEdges.get(columnKey(line))! + HANGING_INDENT_TOLERANCE;
+
+  // Without a hanging indent every line is at the edge; fall back to gaps between entries
+  const outdentedCount = lines.filter(isOutdented).length;
+  if (outdentedCount < lines.length * 0.8) return isOutdented;
+
+  return (line: BibliographyLine) => {
+    const index = lines.indexOf(line);
+    const previous = lines[index - 1];
+    if (!previous || previous.pageIndex !== line.pageIndex || previous.column !== line.column) return true;
+    const gap = previous.line.y - line.line.y;
+    return gap > previous.line.height * 1.5 || (/\.$/.test(previous.line.text.trim()) && gap > previous.line.height * 1.2);
+  };
+}
+
+// --- Citation Links ---
+// Collects the internal links whose destination lands on a bibliography entry
+async function linkCitations(pdfDocument: PDFDocumentProxy, generation: number) {
+  const destinationCache = new Map<string, Promise<ResolvedDestination | null>>();
+  const resolve = (dest: PdfDestination) => {
+    const key = JSON.stringify(dest);
+    let resolved = destinationCache.get(key);
+    if (!resolved) {
+      resolved = resolveDestination(pdfDocument, dest).catch(() => null);
+      destinationCache.set(key, resolved);
+    }
+    return resolved;
+  };
+
+  for (let pageIndex = 0; pageIndex < pdfDocument.numPages; pageIndex++) {
+    let annotations: LinkAnnotationData[];
+    try {
+      annotations = await (await pdfDocument.getPage(pageIndex + 1)).getAnnotations({ intent: 'display' });
+    } catch (error) {
+      console.warn(`Could not read links of page ${pageIndex + 1}:`, error);
+      continue;
+    }
+    if (generation !== scanGeneration) return;
+
+    for (const annotation of annotations) {
+      if (annotation.subtype !== 'Link' || !annotation.dest) continue;
+      const destination = await resolve(annotation.dest);
+      if (generation !== scanGeneration) return;
+      const entry = destination && findEntryAt(destination);
+      if (entry) entry.citations.push({ pageIndex, rect: annotation.rect });
+    }
+  }
+}
+
+function findEntryAt(destination: ResolvedDestination): ReferenceEntry | null {
+  if (destination.top === null) return null;
+  let best: ReferenceEntry | null = null;
+  let bestDistance = MAX_CITATION_DISTANCE;
+  for (const entry of entries) {
+    if (entry.pageIndex !== destination.pageIndex) continue;
+    const distance = Math.abs(entry.top - destination.top) + (destination.left !== null ? Math.abs(entry.x - destination.left) / 2 : 0);
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// --- Sidebar List ---
+function renderReferenceList() {
+  if (!options) return;
+  const { referencesList } = options.elements;
+  referencesList.innerHTML = '';
+
+  const list = document.createElement('ol');
+  list.className = 'referenceList';
+  for (const entry of entries) {
+    list.appendChild(createReferenceItem(entry));
+  }
+  referencesList.appendChild(list);
+}
+
+function createReferenceItem(entry: ReferenceEntry): HTMLLIElement {
+  const li = document.createElement('li');
+  li.className = 'referenceItem';
+  li.title = entry.text;
+
+  const header = document.createElement('div');
+  header.className = 'referenceHeader';
+  const label = document.createElement('span');
+  label.className = 'referenceLabel';
+  label.textContent = entry.label ?? '';
+  const authors = document.createElement('span');
+  authors.className = 'referenceAuthors';
+  authors.textContent = formatAuthors(entry) + (entry.year ? ` (${entry.year})` : '');
+  header.append(label, authors);
+
+  const title = document.createElement('div');
+  title.className = 'referenceTitle';
+  title.textContent = entry.title ?? entry.text;
+
+  const venue = document.createElement('div');
+  venue.className = 'referenceVenue';
+  venue.textContent = entry.venue ?? '';
+
+  const actions = document.createElement('div');
+  actions.className = 'referenceActions';
+  const citedBy = document.createElement('span');
+  citedBy.className = 'referenceCitations';
+  if (entry.citations.length > 0) {
+    citedBy.append('Cited on ');
+    // One link per citing page, in page order
+    const pages = [...new Map(entry.citations.map(citation => [citation.pageIndex, citation])).values()];
+    for (const citation of pages.sort((a, b) => a.pageIndex - b.pageIndex)) {
+      const pageLink = document.createElement('a');
+      pageLink.textContent = `p. ${citation.pageIndex + 1}`;
+      pageLink.title = 'Go to the citation';
+      pageLink.addEventListener('click', (event) => {
+        event.stopPropagation();
+        options?.linkService.goToXY(citation.pageIndex + 1, citation.rect[0], citation.rect[3]);
+      });
+      citedBy.append(pageLink, ' ');
+    }
+  }
+  const copyBibtexButton = document.createElement('button');
+  copyBibtexButton.textContent = 'BibTeX';
+  copyBibtexButton.title = 'Copy as BibTeX';
+  copyBibtexButton.addEventListener('click', (event) => {
+    event.stopPropagation();
+    copyText(toBibTeX([entry]), 'Copied BibTeX entry.');
+  });
+  const copyCslButton = document.createElement('button');
+  copyCslButton.textContent = 'CSL';
+  copyCslButton.title = 'Copy as CSL-JSON';
+  copyCslButton.addEventListener('click', (event) => {
+    event.stopPropagation();
+    copyText(JSON.stringify(toCslJson([entry]), null, 2), 'Copied CSL-JSON entry.');
+  });
+  actions.append(citedBy, copyBibtexButton, copyCslButton);
+
+  li.append(header, title, venue, actions);
+  li.addEventListener('click', () => options?.linkService.goToXY(entry.pageIndex + 1, entry.x, entry.top));
+  return li;
+}
+
+function formatAuthors(entry: ReferenceEntry): string {
+  const families = entry.authors.map(author => author.family);
+  if (families.length === 0) return 'Unknown authors';
+  if (families.length > 3) return `${families[0]} et al.`;
+  return families.join(', ');
+}
+
+function copyText(text: string, message: string) {
+  navigator.clipboard.writeText(text)
+    .then(() => options?.setStatus(message))
+    .catch(error => {
+      console.error("Error copying to clipboard:", error);
+      options?.setStatus('Could not copy to the clipboard.');
+    });
+}
+
+// --- Export ---
+async function exportReferences(format: 'bibtex' | 'csl-json') {
+  if (!options) return;
+  const pdfDocument = options.getDocument();
+  if (!pdfDocument) {
+    options.setStatus('Open a PDF to export its references.');
+    return;
+  }
+  // Waits for a scan that is still running, e.g. started by opening the view
+  await ensureReferencesIndexed();
+  if (indexedDocument !== pdfDocument) return; // Document changed meanwhile
+  if (entries.length === 0) {
+    options.setStatus('No references to export.');
+    return;
+  }
+
+  const baseName = toFileName((await getDocumentTitle(pdfDocument)) ?? options.getSource() ?? 'document');
+  if (format === 'bibtex') {
+    downloadFile(`${baseName}.bib`, toBibTeX(entries), 'application/x-bibtex');
+  } else {
+    downloadFile(`${baseName}.csl.json`, JSON.stringify(toCslJson(entries), null, 2), 'application/json');
+  }
+  options.setStatus(`Exported ${entries.length} references.`);
+}
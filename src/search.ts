@@ -0,0 +1,317 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { EventBus, PDFFindController, PDFLinkService } from 'pdfjs-dist/web/pdf_viewer.mjs';
+import { cleanLineBreaks } from './textCleanup';
+
+// --- Constants ---
+const CONTEXT_CHARS = 40; // Characters of context shown on each side of a hit
+const RESULTS_UPDATE_DELAY_MS = 150; // Batch result list rebuilds while pages are searched
+const FindState_FOUND = 0;
+const FindState_NOT_FOUND = 1;
+const FindState_WRAPPED = 2;
+const FindState_PENDING = 3;
+
+// --- Type Aliases ---
+// Raw page text, built the same way PDFFindController builds it so that
+// its match offsets can be mapped back to text items
+type PageText = {
+  text: string;
+  itemOffsets: number[]; // Start offset of each text item within `text`
+  itemPositions: Array<{ x: number; y: number }>; // PDF coordinates of each text item
+};
+
+type MatchesCount = { current: number; total: number };
+
+export type SearchOptions = {
+  eventBus: EventBus;
+  findController: PDFFindController;
+  linkService: PDFLinkService;
+  getDocument: () => PDFDocumentProxy | null;
+  // Returns the title of the outline section containing the given position, if any
+  getSectionTitle: (pageIndex: number, x: number, y: number) => string | null;
+  setStatus: (message: string) => void;
+  // Called when the results panel should be brought into view
+  showResultsPanel: () => void;
+  elements: {
+    findBar: HTMLElement;
+    findInput: HTMLInputElement;
+    findPrevious: HTMLButtonElement;
+    findNext: HTMLButtonElement;
+    highlightAll: HTMLInputElement;
+    matchCase: HTMLInputElement;
+    entireWord: HTMLInputElement;
+    findClose: HTMLButtonElement;
+    resultsView: HTMLElement;
+  };
+};
+
+// --- Module State ---
+let options: SearchOptions | null = null;
+let pageTextDocument: PDFDocumentProxy | null = null; // Document the cache below belongs to
+const pageTextCache = new Map<number, Promise<PageText>>(); // pageIndex -> raw text
+let resultsTimer: ReturnType<typeof setTimeout> | null = null;
+let resultsGeneration = 0; // Incremented on each rebuild so stale async rebuilds can bail out
+let lastResultsKey: string | null = null; // Query, options and match count of the rendered list
+let lastResultsQuery: string | null = null;
+
+/**
+ * Wires the find bar and search results panel to the viewer's `PDFFindController`.
+ * Matching itself (including ligature and hyphenation normalization) is done by pdf.js.
+ */
+export function initSearch(searchOptions: SearchOptions) {
+  options = searchOptions;
+  const { eventBus, elements } = searchOptions;
+
+  // Override the browser's find with the in-document find bar
+  window.addEventListener('keydown', (event) => {
+    if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'f') {
+      event.preventDefault();
+      openFindBar();
+    } else if (event.key === 'Escape' && !elements.findBar.classList.contains('hidden')) {
+      closeFindBar();
+    }
+  });
+
+  elements.findInput.addEventListener('input', () => dispatchFind(''));
+  elements.findInput.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      dispatchFind('again', event.shiftKey);
+    }
+  });
+  elements.findNext.addEventListener('click', () => dispatchFind('again', false));
+  elements.findPrevious.addEventListener('click', () => dispatchFind('again', true));
+  elements.highlightAll.addEventListener('change', () => dispatchFind('highlightallchange'));
+  elements.matchCase.addEventListener('change', () => dispatchFind('casesensitivitychange'));
+  elements.entireWord.addEventListener('change', () => dispatchFind('entirewordchange'));
+  elements.findClose.addEventListener('click', closeFindBar);
+
+  eventBus.on('updatefindmatchescount', (evt: { matchesCount: MatchesCount }) => {
+    updateMatchCounter(evt.matchesCount);
+    scheduleResultsUpdate();
+  });
+
+  eventBus.on('updatefindcontrolstate', (evt: { state: number; previous: boolean; matchesCount: MatchesCount }) => {
+    switch (evt.state) {
+      case FindState_PENDING:
+        searchOptions.setStatus('Searching...');
+        break;
+      case FindState_NOT_FOUND:
+        searchOptions.setStatus('Phrase not found');
+        break;
+      case FindState_WRAPPED:
+        updateMatchCounter(evt.matchesCount, evt.previous ? 'Reached top, continued from bottom' : 'Reached end, continued from top');
+        break;
+      case FindState_FOUND:
+        updateMatchCounter(evt.matchesCount);
+        break;
+    }
+    scheduleResultsUpdate();
+  });
+}
+
+export function openFindBar() {
+  if (!options) return;
+  const { findBar, findInput } = options.elements;
+  findBar.classList.remove('hidden');
+  findInput.select();
+  findInput.focus();
+}
+
+/**
+ * Searches the document for `query` as if it was typed into the find bar.
+ */
+export function findText(query: string, { caseSensitive = false, entireWord = false, highlightAll = true } = {}) {
+  if (!options) return;
+  const { elements } = options;
+  elements.findBar.classList.remove('hidden');
+  elements.findInput.value = query;
+  elements.matchCase.checked = caseSensitive;
+  elements.entireWord.checked = entireWord;
+  elements.highlightAll.checked = highlightAll;
+  dispatchFind('');
+}
+
+export function closeFindBar() {
+  if (!options) return;
+  options.elements.findBar.classList.add('hidden');
+  // Lets PDFFindController clear its highlights
+  options.eventBus.dispatch('findbarclose', { source: options.elements.findBar });
+}
+
+/**
+ * Clears results and cached page text. Called when the document is replaced.
+ */
+export function resetSearch() {
+  pageTextCache.clear();
+  pageTextDocument = null;
+  if (resultsTimer) { clearTimeout(resultsTimer); resultsTimer = null; }
+  resultsGeneration++;
+  lastResultsKey = null;
+  lastResultsQuery = null;
+  if (options) options.elements.resultsView.innerHTML = '';
+}
+
+// --- Find Controller Interaction ---
+function dispatchFind(type: string, findPrevious = false) {
+  if (!options) return;
+  const { elements } = options;
+  options.eventBus.dispatch('find', {
+    source: elements.findBar,
+    type,
+    query: elements.findInput.value,
+    caseSensitive: elements.matchCase.checked,
+    entireWord: elements.entireWord.checked,
+    highlightAll: elements.highlightAll.checked,
+    findPrevious,
+    matchDiacritics: false,
+  });
+}
+
+function updateMatchCounter(matchesCount: MatchesCount | undefined, prefix?: string) {
+  if (!options || !matchesCount) return;
+  if (!options.elements.findInput.value) return;
+  const { current, total } = matchesCount;
+  if (total === 0) return; // NOT_FOUND state reports this case
+  const counter = current > 0 ? `Match ${current} of ${total}` : `${total} matches`;
+  options.setStatus(prefix ? `${prefix}. ${counter}` : counter);
+}
+
+// --- Results Panel ---
+function scheduleResultsUpdate() {
+  if (resultsTimer) clearTimeout(resultsTimer);
+  resultsTimer = setTimeout(() => {
+    resultsTimer = null;
+    renderResults().catch(error => console.error("Error rendering search results:", error));
+  }, RESULTS_UPDATE_DELAY_MS);
+}
+
+async function renderResults() {
+  if (!options) return;
+  const { findController, getDocument, elements } = options;
+  const pdfDocument = getDocument();
+  const query = elements.findInput.value;
+
+  const pageMatches = findController.pageMatches ?? [];
+  const pageMatchesLength = findController.pageMatchesLength ?? [];
+  if (!pdfDocument || !query) {
+    resultsGeneration++;
+    lastResultsKey = null;
+    elements.resultsView.innerHTML = '';
+    return;
+  }
+
+  // Moving between matches also fires update events; only rebuild when the hits changed
+  const matchCount = pageMatches.reduce((count: number, matches: number[] | undefined) => count + (matches?.length ?? 0), 0);
+  const resultsKey = [query, elements.matchCase.checked, elements.entireWord.checked, matchCount].join('|');
+  if (resultsKey === lastResultsKey) return;
+  lastResultsKey = resultsKey;
+  const generation = ++resultsGeneration;
+
+  const list = document.createElement('ul');
+  list.className = 'searchResults';
+  let total = 0;
+
+  for (let pageIndex = 0; pageIndex < pageMatches.length; pageIndex++) {
+    const matches: number[] | undefined = pageMatches[pageIndex];
+    if (!matches || matches.length === 0) continue;
+
+    const pageText = await getPageText(pdfDocument, pageIndex);
+    if (generation !== resultsGeneration) return; // A newer rebuild started
+
+    matches.forEach((matchOffset, matchIndex) => {
+      const matchLength: number = pageMatchesLength[pageIndex]?.[matchIndex] ?? 0;
+      list.appendChild(createResultItem(pageIndex, pageText, matchOffset, matchLength));
+      total++;
+    });
+  }
+
+  elements.resultsView.innerHTML = '';
+  const header = document.createElement('div');
+  header.className = 'searchResultsHeader';
+  header.textContent = total > 0 ? `${total} results for "${query}"` : `No results for "${query}"`;
+  elements.resultsView.append(header, list);
+  // Bring the panel up for a new query, but don't steal the sidebar while paging through hits
+  if (total > 0 && query !== lastResultsQuery) options.showResultsPanel();
+  lastResultsQuery = query;
+}
+
+function createResultItem(pageIndex: number, pageText: PageText, matchOffset: number, matchLength: number): HTMLLIElement {
+  const position = getMatchPosition(pageText, matchOffset);
+  const sectionTitle = options?.getSectionTitle(pageIndex, position.x, position.y) ?? null;
+
+  const li = document.createElement('li');
+  li.className = 'searchResult';
+
+  const location = document.createElement('div');
+  location.className = 'searchResultLocation';
+  location.textContent = sectionTitle ? `p. ${pageIndex + 1} · ${sectionTitle}` : `p. ${pageIndex + 1}`;
+
+  const context = document.createElement('div');
+  context.className = 'searchResultContext';
+  const start = Math.max(0, matchOffset - CONTEXT_CHARS);
+  const end = Math.min(pageText.text.length, matchOffset + matchLength + CONTEXT_CHARS);
+  const mark = document.createElement('mark');
+  mark.textContent = cleanLineBreaks(pageText.text.slice(matchOffset, matchOffset + matchLength));
+  context.append(
+    (start > 0 ? '…' : '') + cleanLineBreaks(pageText.text.slice(start, matchOffset)),
+    mark,
+    cleanLineBreaks(pageText.text.slice(matchOffset + matchLength, end)) + (end < pageText.text.length ? '…' : ''),
+  );
+
+  li.append(location, context);
+  li.addEventListener('click', () => {
+    options?.linkService.goToXY(pageIndex + 1, position.x, position.y);
+    li.parentElement?.querySelector('.searchResult.selected')?.classList.remove('selected');
+    li.classList.add('selected');
+  });
+  return li;
+}
+
+// --- Page Text ---
+async function getPageText(pdfDocument: PDFDocumentProxy, pageIndex: number): Promise<PageText> {
+  if (pageTextDocument !== pdfDocument) {
+    pageTextCache.clear();
+    pageTextDocument = pdfDocument;
+  }
+  let pageText = pageTextCache.get(pageIndex);
+  if (!pageText) {
+    pageText = extractPageText(pdfDocument, pageIndex);
+    pageTextCache.set(pageIndex, pageText);
+  }
+  return pageText;
+}
+
+async function extractPageText(pdfDocument: PDFDocumentProxy, pageIndex: number): Promise<PageText> {
+  const page = await pdfDocument.getPage(pageIndex + 1);
+  // Same options and joining as PDFFindController, so match offsets line up
+  const textContent = await page.getTextContent({ disableNormalization: true });
+  let text = '';
+  const itemOffsets: number[] = [];
+  const itemPositions: Array<{ x: number; y: number }> = [];
+
+  for (const item of textContent.items) {
+    if (!('str' in item)) continue; // Skip marked content entries
+    itemOffsets.push(text.length);
+    itemPositions.push({ x: item.transform[4], y: item.transform[5] + item.height });
+    text += item.str;
+    if (item.hasEOL) text += '\n';
+  }
+  return { text, itemOffsets, itemPositions };
+}
+
+// Finds the PDF coordinates of the text item containing `offset`
+function getMatchPosition(pageText: PageText, offset: number): { x: number; y: number } {
+  let low = 0;
+  let high = pageText.itemOffsets.length - 1;
+  let found = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (pageText.itemOffsets[mid]! <= offset) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return pageText.itemPositions[found] ?? { x: 0, y: 0 };
+}
@@ -0,0 +1,207 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { PdfDestination } from './destinations';
+import { createViewerPane, type ViewerPane } from './viewerPane';
+
+// --- Type Aliases ---
+export type SplitViewOptions = {
+  primaryPane: ViewerPane;
+  getDocument: () => PDFDocumentProxy | null;
+  // Called once when the second pane is created, to hook up per-pane features
+  onPaneCreated: (pane: ViewerPane) => void;
+  // Called when the pane that zoom controls apply to changes
+  onActivePaneChange: (pane: ViewerPane) => void;
+  setStatus: (message: string) => void;
+  elements: {
+    splitViewButton: HTMLButtonElement;
+    secondaryContainer: HTMLDivElement;
+    secondaryViewer: HTMLDivElement;
+  };
+};
+
+// --- Module State ---
+let options: SplitViewOptions | null = null;
+let secondaryPane: ViewerPane | null = null; // Created on first use and kept while hidden
+let isOpen = false;
+let activePane: ViewerPane | null = null;
+let pendingNavigation: ((pane: ViewerPane) => void) | null = null; // Applied once the second pane's pages exist
+let secondaryDocument: PDFDocumentProxy | null = null; // Shown instead of the primary pane's document
+let onSecondaryDocumentClose: (() => void) | null = null;
+
+/**
+ * Sets up the optional second pane. Shift+click on an internal link opens its
+ * target in the other pane, leaving the current one where it is.
+ */
+export function initSplitView(splitViewOptions: SplitViewOptions) {
+  options = splitViewOptions;
+  const { primaryPane, elements } = splitViewOptions;
+  activePane = primaryPane;
+
+  elements.splitViewButton.addEventListener('click', () => {
+    if (isOpen) {
+      closeSplitView();
+    } else {
+      openSplitView();
+    }
+  });
+  attachPaneListeners(primaryPane);
+}
+
+/**
+ * Returns the pane zoom controls apply to: the one last clicked or scrolled.
+ */
+export function getActivePane(): ViewerPane | null {
+  return activePane;
+}
+
+export function openSplitView() {
+  if (!options || isOpen) return;
+  const { elements } = options;
+  if (!secondaryPane) {
+    secondaryPane = createViewerPane(elements.secondaryContainer, elements.secondaryViewer);
+    secondaryPane.eventBus.on('pagesinit', () => {
+      if (!secondaryPane) return;
+      secondaryPane.pdfViewer.currentScaleValue = 'page-width';
+      const navigate = pendingNavigation;
+      pendingNavigation = null;
+      navigate?.(secondaryPane);
+    });
+    attachPaneListeners(secondaryPane);
+    options.onPaneCreated(secondaryPane);
+  }
+
+  isOpen = true;
+  document.body.classList.add('splitView');
+  elements.splitViewButton.classList.add('toggled');
+  activePane?.container.classList.add('activePane');
+  setPaneDocument(secondaryPane, secondaryDocument ?? options.getDocument());
+}
+
+export function closeSplitView() {
+  if (!options || !isOpen) return;
+  isOpen = false;
+  pendingNavigation = null;
+  document.body.classList.remove('splitView');
+  options.elements.splitViewButton.classList.remove('toggled');
+  options.primaryPane.container.classList.remove('activePane');
+  if (secondaryPane) {
+    secondaryPane.container.classList.remove('activePane');
+    setPaneDocument(secondaryPane, null);
+    if (activePane === secondaryPane) setActivePane(options.primaryPane);
+  }
+  secondaryDocument = null;
+  const onClose = onSecondaryDocumentClose;
+  onSecondaryDocumentClose = null;
+  onClose?.();
+}
+
+/**
+ * Opens the split view with a document other than the primary pane's, such as
+ * another version to compare with. The second pane stops following the primary
+ * document until the split view is closed, which calls `onClose`.
+ */
+export function showDocumentInSplitView(pdfDocument: PDFDocumentProxy, onClose: () => void): ViewerPane | null {
+  if (!options) return null;
+  secondaryDocument = pdfDocument;
+  onSecondaryDocumentClose = onClose;
+  if (isOpen && secondaryPane) {
+    pendingNavigation = null;
+    setPaneDocument(secondaryPane, pdfDocument);
+  } else {
+    openSplitView();
+  }
+  return secondaryPane;
+}
+
+/**
+ * Shows `pdfDocument` in the second pane, if it is open. Called whenever the
+ * primary pane's document changes.
+ */
+export function setSplitViewDocument(pdfDocument: PDFDocumentProxy | null) {
+  if (!isOpen || !secondaryPane || secondaryDocument) return;
+  pendingNavigation = null;
+  setPaneDocument(secondaryPane, pdfDocument);
+}
+
+/**
+ * Navigates the second pane to `dest`, opening the split view if needed.
+ * Used for outline entries, which belong to the primary pane.
+ */
+export function openDestinationInSplitView(dest: PdfDestination) {
+  if (secondaryDocument) {
+    options?.setStatus('The split view shows another document.');
+    return;
+  }
+  navigatePane(secondaryPaneOrOpen(), pane => {
+    pane.linkService.goToDestination(dest).catch(error => console.error("Navigation error:", error));
+  });
+}
+
+/**
+ * Navigates the second pane, if it is open, without making it the active pane.
+ */
+export function navigateSplitView(navigate: (pane: ViewerPane) => void) {
+  if (isOpen && secondaryPane) whenPaneReady(secondaryPane, navigate);
+}
+
+// --- Panes ---
+function setPaneDocument(pane: ViewerPane, pdfDocument: PDFDocumentProxy | null) {
+  pane.linkService.setDocument(pdfDocument, null);
+  pane.pdfViewer.setDocument(pdfDocument as any);
+}
+
+function setActivePane(pane: ViewerPane) {
+  if (pane === activePane) return;
+  activePane?.container.classList.remove('activePane');
+  activePane = pane;
+  // Only mark the active pane while there is more than one
+  if (isOpen) pane.container.classList.add('activePane');
+  options?.onActivePaneChange(pane);
+}
+
+function attachPaneListeners(pane: ViewerPane) {
+  pane.container.addEventListener('pointerdown', () => setActivePane(pane));
+  pane.container.addEventListener('wheel', () => setActivePane(pane), { passive: true });
+
+  // Capture phase runs before the link's own click handler, so the pane itself doesn't navigate
+  pane.container.addEventListener('click', (event) => {
+    // Links only lead to the same spot in the other pane if it shows the same document
+    if (!event.shiftKey || secondaryDocument) return;
+    const link = (event.target as Element).closest<HTMLAnchorElement>('.linkAnnotation[data-internal-link] a');
+    const hash = link?.getAttribute('href')?.split('#')[1];
+    if (!hash) return;
+    event.preventDefault();
+    event.stopPropagation();
+    openLinkInOtherPane(pane, hash);
+  }, { capture: true });
+}
+
+function openLinkInOtherPane(fromPane: ViewerPane, hash: string) {
+  if (!options) return;
+  const target = fromPane === options.primaryPane ? secondaryPaneOrOpen() : options.primaryPane;
+  navigatePane(target, pane => pane.linkService.setHash(hash));
+}
+
+function secondaryPaneOrOpen(): ViewerPane | null {
+  if (!isOpen) openSplitView();
+  return secondaryPane;
+}
+
+// Navigates `pane` and makes it the active one
+function navigatePane(pane: ViewerPane | null, navigate: (pane: ViewerPane) => void) {
+  if (!pane || !options) return;
+  if (!options.getDocument()) {
+    options.setStatus('Open a PDF first.');
+    return;
+  }
+  whenPaneReady(pane, navigate);
+  setActivePane(pane);
+}
+
+// Navigates now if the pane shows the document, otherwise once its pages are initialized
+function whenPaneReady(pane: ViewerPane, navigate: (pane: ViewerPane) => void) {
+  if (pane === secondaryPane && secondaryPane.pdfViewer.pagesCount === 0) {
+    pendingNavigation = navigate;
+  } else {
+    navigate(pane);
+  }
+}
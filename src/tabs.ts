@@ -0,0 +1,76 @@
+// --- Type Aliases ---
+export type TabStripOptions = {
+  onSelect: (id: number) => void;
+  onClose: (id: number) => void;
+  elements: {
+    tabStrip: HTMLElement;
+  };
+};
+
+// --- Module State ---
+let options: TabStripOptions | null = null;
+const tabElements = new Map<number, HTMLElement>(); // tab id -> tab element, in strip order
+
+/**
+ * Sets up the strip of open document tabs. The tabs themselves are managed by
+ * the caller; this module only renders them and reports clicks.
+ */
+export function initTabStrip(tabStripOptions: TabStripOptions) {
+  options = tabStripOptions;
+  const { tabStrip } = tabStripOptions.elements;
+
+  tabStrip.addEventListener('click', (event) => {
+    const tab = (event.target as Element).closest<HTMLElement>('.documentTab');
+    if (!tab) return;
+    const id = Number(tab.dataset.tabId);
+    if ((event.target as Element).closest('.documentTabClose')) {
+      tabStripOptions.onClose(id);
+    } else {
+      tabStripOptions.onSelect(id);
+    }
+  });
+  // Middle click closes, as in browsers
+  tabStrip.addEventListener('auxclick', (event) => {
+    const tab = (event.target as Element).closest<HTMLElement>('.documentTab');
+    if (!tab || event.button !== 1) return;
+    event.preventDefault();
+    tabStripOptions.onClose(Number(tab.dataset.tabId));
+  });
+}
+
+export function addTab(id: number, title: string, tooltip: string) {
+  if (!options) return;
+  const tab = document.createElement('div');
+  tab.className = 'documentTab';
+  tab.dataset.tabId = String(id);
+  tab.title = tooltip;
+
+  const label = document.createElement('span');
+  label.className = 'documentTabTitle';
+  label.textContent = title;
+  const closeButton = document.createElement('button');
+  closeButton.className = 'documentTabClose';
+  closeButton.title = 'Close tab';
+  closeButton.textContent = '✕';
+
+  tab.append(label, closeButton);
+  options.elements.tabStrip.appendChild(tab);
+  tabElements.set(id, tab);
+}
+
+export function setActiveTab(id: number | null) {
+  tabElements.forEach((tab, tabId) => tab.classList.toggle('active', tabId === id));
+  if (id !== null) tabElements.get(id)?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+}
+
+/**
+ * Marks a tab whose document has unsaved changes.
+ */
+export function setTabDirty(id: number, isDirty: boolean) {
+  tabElements.get(id)?.classList.toggle('dirty', isDirty);
+}
+
+export function removeTab(id: number) {
+  tabElements.get(id)?.remove();
+  tabElements.delete(id);
+}
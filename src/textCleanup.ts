@@ -0,0 +1,76 @@
+// Cleanup rules for text taken out of PDFs: page text, captions, references and
+// copied selections all go through these so they read the same way.
+
+// --- Constants ---
+// Presentation forms of Latin ligatures (U+FB00–U+FB06) and what they stand for
+const LIGATURES: Record<string, string> = {
+  'ﬀ': 'ff',
+  'ﬁ': 'fi',
+  'ﬂ': 'fl',
+  'ﬃ': 'ffi',
+  'ﬄ': 'ffl',
+  'ﬅ': 'st',
+  'ﬆ': 'st',
+};
+const LIGATURE_PATTERN = /[\uFB00-\uFB06]/g;
+// Superscript digits and reference marks directly after a word or punctuation
+const SUPERSCRIPT_MARKER_PATTERN = /(?<=[\p{L}\p{N}.,;:)\]])[\u00B9\u00B2\u00B3\u2070\u2074-\u2079\u2020\u2021]+/gu;
+
+/**
+ * Expands ligature glyphs, drops soft hyphens and turns unusual spaces into
+ * plain ones. Unlike NFKC normalization it leaves other characters alone.
+ */
+export function normalizeGlyphs(text: string): string {
+  return text
+    .replace(LIGATURE_PATTERN, ligature => LIGATURES[ligature] ?? ligature)
+    // A soft hyphen is only visible where a word was split at a line end
+    .replace(/\u00AD(?=\n|$)/g, '-')
+    .replace(/\u00AD/g, '')
+    .replace(/[\u00A0\u2000-\u200A\u202F]/g, ' ');
+}
+
+/**
+ * Removes footnote markers set as superscript characters ("word¹", "result.²").
+ * Markers set as small raised digits can only be told apart by their position,
+ * see the text layer copy handling.
+ */
+export function removeSuperscriptMarkers(text: string): string {
+  return text.replace(SUPERSCRIPT_MARKER_PATTERN, '');
+}
+
+/**
+ * Joins a wrapped line to the text before it, removing hyphenation at the
+ * line break ("infor-" + "mation"). A hyphen stays where it is part of the
+ * word: before a capital ("Self-" + "Attention") and within compounds that
+ * already contain one ("state-of-" + "the-art").
+ */
+export function appendLine(text: string, line: string): string {
+  if (!text) return line;
+  if (!line) return text;
+  if (/\p{L}-$/u.test(text) && /^\p{L}/u.test(line)) {
+    const lastWord = text.slice(text.search(/\S+$/));
+    const isWordBreak = /^\p{Ll}/u.test(line) && !/-.*-$/.test(lastWord);
+    return isWordBreak ? text.slice(0, -1) + line : text + line;
+  }
+  return `${text} ${line}`;
+}
+
+/**
+ * Joins the lines of a paragraph into one line of prose.
+ */
+export function joinLines(lines: string[]): string {
+  return collapseWhitespace(lines.reduce((text, line) => appendLine(text, normalizeGlyphs(line).trim()), ''));
+}
+
+/**
+ * Cleans text with line breaks as "\n", e.g. from a page's text content:
+ * lines are joined and hyphenation at line ends removed. Surrounding
+ * whitespace is kept so slices of a longer text can be cleaned on their own.
+ */
+export function cleanLineBreaks(text: string): string {
+  return collapseWhitespace(normalizeGlyphs(text).replace(/(\p{Ll})-\n(?=\p{Ll})/gu, '$1'));
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
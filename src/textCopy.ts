@@ -0,0 +1,246 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { getDisplayTitle, getPageLabel } from './documentInfo';
+import type { LibrarySource } from './libraryStore';
+import { joinLines, removeSuperscriptMarkers } from './textCleanup';
+
+// --- Constants ---
+const SAME_LINE_TOLERANCE = 0.5; // Fraction of the line height two fragments' centers may differ by
+const PARAGRAPH_GAP = 0.8; // Fraction of the line height between lines that starts a new paragraph
+const FOOTNOTE_MARKER_SIZE = 0.8; // Fragments smaller than this fraction of the line height may be markers
+const FOOTNOTE_MARKER_PATTERN = /^\s*[\d*†‡§,–-]+\s*$/;
+const SENTENCE_END_PATTERN = /[.!?:]["'”’)\]]?$/;
+
+// --- Type Aliases ---
+export type TextCopyOptions = {
+  getDocument: () => PDFDocumentProxy | null;
+  getSource: () => LibrarySource | null;
+  setStatus: (message: string) => void;
+  elements: {
+    viewerContainer: HTMLElement;
+    selectionToolbar: HTMLElement; // Holds buttons with data-action="copyQuote" and "copyMarkdown"
+  };
+};
+
+// Selected text of one text layer element, with where it is displayed
+type SelectedFragment = {
+  text: string;
+  rect: DOMRect;
+  textLayer: Element;
+};
+
+type SelectedLine = {
+  fragments: SelectedFragment[];
+  textLayer: Element;
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+};
+
+// --- Module State ---
+let options: TextCopyOptions | null = null;
+
+/**
+ * Makes copying from the text layer produce clean prose: words hyphenated at
+ * line ends are rejoined, ligatures expanded, lines joined into paragraphs and
+ * footnote markers dropped. The selection toolbar also offers copying as a
+ * quote with citation and as Markdown.
+ */
+export function initTextCopy(textCopyOptions: TextCopyOptions) {
+  options = textCopyOptions;
+  const { elements } = textCopyOptions;
+
+  elements.selectionToolbar.addEventListener('click', (event) => {
+    const action = (event.target as Element).closest<HTMLElement>('button')?.dataset.action;
+    if (action !== 'copyQuote' && action !== 'copyMarkdown') return;
+    copySelectionWithCitation(action === 'copyMarkdown' ? 'markdown' : 'quote').catch(error => {
+      console.error("Error copying selection:", error);
+      textCopyOptions.setStatus('Could not copy the selection.');
+    });
+  });
+
+  attachTextCopy(elements.viewerContainer);
+}
+
+/**
+ * Cleans text copied from another viewer, such as the second pane of the split view.
+ */
+export function attachTextCopy(viewerContainer: HTMLElement) {
+  viewerContainer.addEventListener('copy', (event) => {
+    const text = getSelectedText();
+    if (!text || !event.clipboardData) return; // Not a text layer selection, let the browser copy it
+    event.clipboardData.setData('text/plain', text);
+    event.preventDefault();
+  });
+}
+
+/**
+ * Returns the cleaned text of the current text layer selection, or null if
+ * nothing is selected in a text layer.
+ */
+export function getSelectedText(): string | null {
+  const range = getSelectedRange();
+  const paragraphs = range ? getSelectedParagraphs(range) : [];
+  return paragraphs.length > 0 ? paragraphs.join('\n\n') : null;
+}
+
+// --- Copy Modes ---
+async function copySelectionWithCitation(format: 'quote' | 'markdown') {
+  if (!options) return;
+  const pdfDocument = options.getDocument();
+  const source = options.getSource();
+  const range = getSelectedRange();
+  const paragraphs = range ? getSelectedParagraphs(range) : [];
+  if (!pdfDocument || !source || !range || paragraphs.length === 0) {
+    options.setStatus('Select text in the document to copy it.');
+    return;
+  }
+
+  const [firstPage, lastPage] = getSelectedPageIndices(range);
+  const title = await getDisplayTitle(pdfDocument, source);
+  const firstLabel = await getPageLabel(pdfDocument, firstPage);
+  const lastLabel = await getPageLabel(pdfDocument, lastPage);
+  const pages = firstPage === lastPage ? `p. ${firstLabel}` : `pp. ${firstLabel}–${lastLabel}`;
+  const url = source.type === 'url' ? source.url : null;
+
+  let text: string;
+  if (format === 'markdown') {
+    // Link to the page with the #page open parameter most PDF viewers understand
+    const cited = url ? `[${escapeMarkdown(title)}](${url.split('#')[0]}#page=${firstPage + 1})` : `*${escapeMarkdown(title)}*`;
+    text = [
+      ...paragraphs.map(paragraph => `> ${escapeMarkdown(paragraph)}`).join('\n>\n').split('\n'),
+      '>',
+      `> — ${cited}, ${pages}`,
+    ].join('\n');
+  } else {
+    text = `“${paragraphs.join('\n\n')}”\n— ${title}, ${pages}${url ? `, ${url}` : ''}`;
+  }
+
+  await navigator.clipboard.writeText(text);
+  window.getSelection()?.removeAllRanges();
+  options.elements.selectionToolbar.classList.add('hidden');
+  options.setStatus(format === 'markdown' ? 'Copied as Markdown.' : 'Copied as quote with citation.');
+}
+
+// Backslash-escapes characters that would otherwise start emphasis or code
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_]/g, '\\$&');
+}
+
+// --- Selection Text ---
+function getSelectedRange(): Range | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+  return selection.getRangeAt(0);
+}
+
+// 0-based indices of the first and last page the selection touches
+function getSelectedPageIndices(range: Range): [number, number] {
+  const pageIndexOf = (node: Node) => {
+    const element = node instanceof Element ? node : node.parentElement;
+    return Number(element?.closest<HTMLElement>('.page')?.dataset.pageNumber ?? 1) - 1;
+  };
+  return [pageIndexOf(range.startContainer), pageIndexOf(range.endContainer)];
+}
+
+/**
+ * Returns the selected text layer text as cleaned paragraphs. Lines and
+ * paragraphs are told apart by where the text is displayed, since the text
+ * layer itself has no structure.
+ */
+function getSelectedParagraphs(range: Range): string[] {
+  const lines = groupIntoLines(getSelectedFragments(range)).map(removeFootnoteMarkers);
+
+  const paragraphs: string[][] = [];
+  let previous: SelectedLine | null = null;
+  let rightEdge = 0; // Right margin of the current paragraph, to spot short last lines
+  for (const line of lines) {
+    const text = line.fragments.map(fragment => fragment.text).join('');
+    if (!text.trim()) continue;
+    if (!previous || startsParagraph(previous, line, rightEdge)) {
+      paragraphs.push([]);
+      rightEdge = 0;
+    }
+    paragraphs[paragraphs.length - 1]!.push(text);
+    rightEdge = Math.max(rightEdge, line.right);
+    previous = line;
+  }
+
+  return paragraphs
+    .map(paragraphLines => removeSuperscriptMarkers(joinLines(paragraphLines)).trim())
+    .filter(paragraph => paragraph.length > 0);
+}
+
+// The selected parts of the text nodes inside text layers, in document order
+function getSelectedFragments(range: Range): SelectedFragment[] {
+  const root = range.commonAncestorContainer;
+  const fragments: SelectedFragment[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  // A selection within a single text node has that node as its root, which the walker skips
+  let node: Node | null = root.nodeType === Node.TEXT_NODE ? root : walker.nextNode();
+
+  while (node) {
+    const element = node.parentElement;
+    const textLayer = element?.closest('.textLayer');
+    if (element && textLayer && range.intersectsNode(node)) {
+      const data = (node as Text).data;
+      const start = node === range.startContainer ? range.startOffset : 0;
+      const end = node === range.endContainer ? range.endOffset : data.length;
+      const text = data.slice(start, end);
+      if (text) fragments.push({ text, rect: element.getBoundingClientRect(), textLayer });
+    }
+    node = node === root ? null : walker.nextNode();
+  }
+  return fragments;
+}
+
+function groupIntoLines(fragments: SelectedFragment[]): SelectedLine[] {
+  const lines: SelectedLine[] = [];
+  let line: SelectedLine | null = null;
+  for (const fragment of fragments) {
+    const { rect } = fragment;
+    const center = (rect.top + rect.bottom) / 2;
+    const isSameLine = line && line.textLayer === fragment.textLayer &&
+      Math.abs(center - (line.top + line.bottom) / 2) <= (line.bottom - line.top) * SAME_LINE_TOLERANCE;
+
+    if (line && isSameLine) {
+      line.fragments.push(fragment);
+      line.top = Math.min(line.top, rect.top);
+      line.bottom = Math.max(line.bottom, rect.bottom);
+      line.left = Math.min(line.left, rect.left);
+      line.right = Math.max(line.right, rect.right);
+    } else {
+      line = { fragments: [fragment], textLayer: fragment.textLayer, top: rect.top, bottom: rect.bottom, left: rect.left, right: rect.right };
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+// Drops small raised numbers and symbols after words, which mark footnotes
+function removeFootnoteMarkers(line: SelectedLine): SelectedLine {
+  const lineHeight = Math.max(...line.fragments.map(fragment => fragment.rect.height));
+  const fragments = line.fragments.filter((fragment, index) => {
+    const { rect } = fragment;
+    const isSmall = rect.height < lineHeight * FOOTNOTE_MARKER_SIZE;
+    const isRaised = rect.bottom < line.bottom - lineHeight * (1 - FOOTNOTE_MARKER_SIZE);
+    return index === 0 || !isSmall || !isRaised || !FOOTNOTE_MARKER_PATTERN.test(fragment.text);
+  });
+  return { ...line, fragments };
+}
+
+// A paragraph starts after a visible gap, at an indented line after a
+// sentence end, or after a short line that ends a sentence
+function startsParagraph(previous: SelectedLine, line: SelectedLine, rightEdge: number): boolean {
+  if (line.textLayer !== previous.textLayer) return false; // Paragraphs continue across pages
+  const height = previous.bottom - previous.top;
+  const gap = line.top - previous.bottom;
+  if (gap < -height) return false; // Next column, the paragraph continues at its top
+  if (gap > height * PARAGRAPH_GAP) return true;
+
+  const previousText = previous.fragments.map(fragment => fragment.text).join('').trim();
+  if (!SENTENCE_END_PATTERN.test(previousText)) return false;
+  const isIndented = line.left > previous.left + height;
+  const endsShort = previous.right < rightEdge - 2 * height;
+  return isIndented || endsShort;
+}
@@ -0,0 +1,238 @@
+// Alignment of two versions of a text. Sections are matched by title, then
+// paragraphs by their content, and only the paragraphs in between are
+// compared word by word, so reflowed pages don't show up as changes.
+
+// --- Type Aliases ---
+// A word as displayed, in PDF coordinates. A word hyphenated across lines has a rectangle per part.
+export type DiffWord = {
+  text: string;
+  pageIndex: number; // 0-based
+  rects: Array<[number, number, number, number]>;
+};
+
+export type DiffParagraph = {
+  words: DiffWord[];
+};
+
+export type DiffSection = {
+  title: string | null; // Null for the text before the first heading
+  paragraphs: DiffParagraph[];
+};
+
+// Words removed from the older version and added in the newer one at the same spot
+export type TextChange = {
+  section: string | null; // Title of the section the change is in
+  deleted: DiffWord[];
+  inserted: DiffWord[];
+  // Text shown for each side, including unchanged words between merged edits
+  oldText: string;
+  newText: string;
+  // Where the change is on each side: its first word, or the word it was inserted at or deleted from
+  oldWord: DiffWord | null;
+  newWord: DiffWord | null;
+};
+
+type DiffEdit = {
+  operation: 'equal' | 'delete' | 'insert';
+  oldIndex: number; // For insertions, the old position the item is inserted at
+  newIndex: number; // For deletions, the new position the item was deleted from
+};
+
+// --- Constants ---
+const MAX_DIFF_CELLS = 4_000_000; // Largest LCS table built; larger differences are reported whole
+const MERGE_WORDS = 2; // Changes at most this many unchanged words apart are shown as one
+
+/**
+ * Compares two versions of a document and returns the changes in the order of
+ * the newer version.
+ */
+export function compareSections(oldSections: DiffSection[], newSections: DiffSection[]): TextChange[] {
+  const changes: TextChange[] = [];
+  const edits = diffSequences(oldSections.map(section => sectionTitleKey(section.title)), newSections.map(section => sectionTitleKey(section.title)));
+  if (!edits) {
+    compareParagraphs(oldSections.flatMap(section => section.paragraphs), newSections.flatMap(section => section.paragraphs), null, changes);
+    return changes;
+  }
+
+  // Sections without a counterpart (added, removed or renamed) are compared together with their neighbours
+  let unmatchedOld: DiffSection[] = [];
+  let unmatchedNew: DiffSection[] = [];
+  const flushUnmatched = () => {
+    if (unmatchedOld.length === 0 && unmatchedNew.length === 0) return;
+    const title = unmatchedNew[0]?.title ?? unmatchedOld[0]?.title ?? null;
+    compareParagraphs(unmatchedOld.flatMap(section => section.paragraphs), unmatchedNew.flatMap(section => section.paragraphs), title, changes);
+    unmatchedOld = [];
+    unmatchedNew = [];
+  };
+
+  for (const edit of edits) {
+    if (edit.operation === 'delete') {
+      unmatchedOld.push(oldSections[edit.oldIndex]!);
+    } else if (edit.operation === 'insert') {
+      unmatchedNew.push(newSections[edit.newIndex]!);
+    } else {
+      flushUnmatched();
+      const newSection = newSections[edit.newIndex]!;
+      compareParagraphs(oldSections[edit.oldIndex]!.paragraphs, newSection.paragraphs, newSection.title, changes);
+    }
+  }
+  flushUnmatched();
+  return changes;
+}
+
+/**
+ * Aligns two sequences with a longest common subsequence. Common prefixes and
+ * suffixes are skipped first, which keeps the table small for similar texts.
+ * Returns null if the differing middle parts are too long to align.
+ */
+export function diffSequences(oldKeys: string[], newKeys: string[]): DiffEdit[] | null {
+  let start = 0;
+  while (start < oldKeys.length && start < newKeys.length && oldKeys[start] === newKeys[start]) start++;
+  let oldEnd = oldKeys.length;
+  let newEnd = newKeys.length;
+  while (oldEnd > start && newEnd > start && oldKeys[oldEnd - 1] === newKeys[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const rows = oldEnd - start;
+  const columns = newEnd - start;
+  if (rows * columns > MAX_DIFF_CELLS) return null;
+
+  // lengths[i * width + j]: common subsequence length of the middle parts from i and j on
+  const width = columns + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldKeys[start + i] === newKeys[start + j]
+        ? lengths[(i + 1) * width + j + 1]! + 1
+        : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+    }
+  }
+
+  const edits: DiffEdit[] = [];
+  for (let k = 0; k < start; k++) edits.push({ operation: 'equal', oldIndex: k, newIndex: k });
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < columns) {
+    if (i < rows && j < columns && oldKeys[start + i] === newKeys[start + j]) {
+      edits.push({ operation: 'equal', oldIndex: start + i++, newIndex: start + j++ });
+    } else if (i < rows && (j === columns || lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!)) {
+      // Deletions go first, so a replacement reads "old → new"
+      edits.push({ operation: 'delete', oldIndex: start + i++, newIndex: start + j });
+    } else {
+      edits.push({ operation: 'insert', oldIndex: start + i, newIndex: start + j++ });
+    }
+  }
+  for (let k = 0; k < oldKeys.length - oldEnd; k++) {
+    edits.push({ operation: 'equal', oldIndex: oldEnd + k, newIndex: newEnd + k });
+  }
+  return edits;
+}
+
+/**
+ * Normalizes a section title for matching: case, punctuation and numbering are
+ * ignored, so inserting a section doesn't unmatch the ones after it.
+ */
+export function sectionTitleKey(title: string | null): string {
+  if (title === null) return '';
+  return title
+    .toLowerCase()
+    .replace(/^(?:(?:\d+|[a-z])(?:\.\d+)*\.?|[ivxlc]+\.)\s+/, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// --- Alignment ---
+function paragraphKey(paragraph: DiffParagraph): string {
+  return paragraph.words.map(word => word.text).join(' ');
+}
+
+// Paragraphs that are the same in both versions anchor the word comparison of those in between
+function compareParagraphs(oldParagraphs: DiffParagraph[], newParagraphs: DiffParagraph[], section: string | null, changes: TextChange[]) {
+  const edits = diffSequences(oldParagraphs.map(paragraphKey), newParagraphs.map(paragraphKey));
+  if (!edits) {
+    compareWords(oldParagraphs.flatMap(p => p.words), newParagraphs.flatMap(p => p.words), section, changes);
+    return;
+  }
+
+  let oldWords: DiffWord[] = [];
+  let newWords: DiffWord[] = [];
+  const flushWords = () => {
+    if (oldWords.length > 0 || newWords.length > 0) compareWords(oldWords, newWords, section, changes);
+    oldWords = [];
+    newWords = [];
+  };
+  for (const edit of edits) {
+    if (edit.operation === 'delete') {
+      oldWords.push(...oldParagraphs[edit.oldIndex]!.words);
+    } else if (edit.operation === 'insert') {
+      newWords.push(...newParagraphs[edit.newIndex]!.words);
+    } else {
+      flushWords();
+    }
+  }
+  flushWords();
+}
+
+function compareWords(oldWords: DiffWord[], newWords: DiffWord[], section: string | null, changes: TextChange[]) {
+  const edits = diffSequences(oldWords.map(word => word.text), newWords.map(word => word.text));
+  if (!edits) {
+    // Too different to align word by word: report the passage as replaced
+    changes.push(createChange(section, oldWords, newWords, oldWords, newWords));
+    return;
+  }
+
+  // Runs of edits, merged while few unchanged words separate them
+  let run: DiffEdit[] = [];
+  let equalSince = 0; // Unchanged words since the last edit of the run
+  const flushRun = () => {
+    const edited = run.slice(0, run.length - equalSince);
+    if (edited.some(edit => edit.operation !== 'equal')) changes.push(changeFromEdits(edited, oldWords, newWords, section));
+    run = [];
+    equalSince = 0;
+  };
+  for (const edit of edits) {
+    if (edit.operation === 'equal') {
+      if (run.length === 0) continue;
+      run.push(edit);
+      if (++equalSince > MERGE_WORDS) flushRun();
+    } else {
+      run.push(edit);
+      equalSince = 0;
+    }
+  }
+  flushRun();
+}
+
+function changeFromEdits(edits: DiffEdit[], oldWords: DiffWord[], newWords: DiffWord[], section: string | null): TextChange {
+  const deleted: DiffWord[] = [];
+  const inserted: DiffWord[] = [];
+  const oldShown: DiffWord[] = [];
+  const newShown: DiffWord[] = [];
+  for (const edit of edits) {
+    if (edit.operation !== 'insert') oldShown.push(oldWords[edit.oldIndex]!);
+    if (edit.operation !== 'delete') newShown.push(newWords[edit.newIndex]!);
+    if (edit.operation === 'delete') deleted.push(oldWords[edit.oldIndex]!);
+    if (edit.operation === 'insert') inserted.push(newWords[edit.newIndex]!);
+  }
+
+  const change = createChange(section, deleted, inserted, oldShown, newShown);
+  // A side without words of its own is located by its neighbouring word
+  const first = edits[0]!;
+  change.oldWord ??= oldWords[first.oldIndex - 1] ?? oldWords[first.oldIndex] ?? null;
+  change.newWord ??= newWords[first.newIndex - 1] ?? newWords[first.newIndex] ?? null;
+  return change;
+}
+
+function createChange(section: string | null, deleted: DiffWord[], inserted: DiffWord[], oldShown: DiffWord[], newShown: DiffWord[]): TextChange {
+  return {
+    section,
+    deleted,
+    inserted,
+    oldText: oldShown.map(word => word.text).join(' '),
+    newText: newShown.map(word => word.text).join(' '),
+    oldWord: oldShown[0] ?? null,
+    newWord: newShown[0] ?? null,
+  };
+}
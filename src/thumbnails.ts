@@ -0,0 +1,205 @@
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+
+// --- Constants ---
+const THUMBNAIL_WIDTH = 140; // CSS pixels
+const THUMBNAIL_ROOT_MARGIN = '300px 0px'; // Start rendering slightly before a thumbnail scrolls into view
+
+// --- Type Aliases ---
+type ThumbnailEntry = {
+  pageNumber: number; // 1-based
+  element: HTMLElement; // Clickable wrapper
+  imageContainer: HTMLElement; // Holds placeholder, then the rendered image
+  rendered: boolean;
+  objectUrl: string | null; // Blob URL of the rendered image, revoked on teardown
+};
+
+// --- Module State ---
+let thumbnailContainer: HTMLElement | null = null;
+let onThumbnailSelected: (pageNumber: number) => void = () => {};
+let thumbnailDocument: PDFDocumentProxy | null = null;
+let thumbnails: ThumbnailEntry[] = [];
+let observer: IntersectionObserver | null = null;
+let renderQueue: ThumbnailEntry[] = []; // Visible thumbnails waiting to be rendered
+let activeRenderTask: RenderTask | null = null;
+let isRendering = false; // Thumbnails render one at a time
+let currentThumbnail: ThumbnailEntry | null = null;
+let generation = 0; // Incremented on teardown so stale async work can bail out
+
+/**
+ * Sets up the thumbnail sidebar. `onSelect` is called with the 1-based page
+ * number when a thumbnail is clicked.
+ */
+export function initThumbnails(container: HTMLElement, onSelect: (pageNumber: number) => void) {
+  thumbnailContainer = container;
+  onThumbnailSelected = onSelect;
+}
+
+/**
+ * Builds placeholders for every page of `pdfDocument`. Only thumbnails that
+ * become visible in the sidebar are rendered, one at a time.
+ */
+export async function buildThumbnails(pdfDocument: PDFDocumentProxy, currentPageNumber = 1) {
+  if (!thumbnailContainer) return;
+  clearThumbnails();
+  thumbnailDocument = pdfDocument;
+  const buildGeneration = generation;
+
+  // Size all placeholders after the first page; most papers use a single page size
+  let placeholderHeight = THUMBNAIL_WIDTH * Math.SQRT2;
+  try {
+    const firstPage = await pdfDocument.getPage(1);
+    const viewport = firstPage.getViewport({ scale: 1 });
+    placeholderHeight = THUMBNAIL_WIDTH * (viewport.height / viewport.width);
+  } catch (error) {
+    console.warn("Could not read first page size for thumbnails:", error);
+  }
+  // Bail out if thumbnails were torn down in the meantime
+  if (buildGeneration !== generation) return;
+
+  observer = new IntersectionObserver(handleIntersection, { rootMargin: THUMBNAIL_ROOT_MARGIN });
+  const fragment = document.createDocumentFragment();
+
+  for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+    const element = document.createElement('a');
+    element.className = 'thumbnail';
+    element.href = `#page=${pageNumber}`;
+    element.title = `Page ${pageNumber}`;
+    element.dataset.pageNumber = String(pageNumber);
+
+    const imageContainer = document.createElement('div');
+    imageContainer.className = 'thumbnailImage';
+    imageContainer.style.width = `${THUMBNAIL_WIDTH}px`;
+    imageContainer.style.height = `${Math.round(placeholderHeight)}px`;
+
+    const label = document.createElement('div');
+    label.className = 'thumbnailLabel';
+    label.textContent = String(pageNumber);
+
+    element.append(imageContainer, label);
+    element.addEventListener('click', (event) => {
+      event.preventDefault();
+      onThumbnailSelected(pageNumber);
+    });
+
+    const entry: ThumbnailEntry = { pageNumber, element, imageContainer, rendered: false, objectUrl: null };
+    thumbnails.push(entry);
+    fragment.appendChild(element);
+    observer.observe(element);
+  }
+
+  thumbnailContainer.appendChild(fragment);
+  setCurrentThumbnail(currentPageNumber);
+}
+
+/**
+ * Tears down all thumbnails and cancels pending renders.
+ */
+export function clearThumbnails() {
+  generation++;
+  observer?.disconnect();
+  observer = null;
+  activeRenderTask?.cancel();
+  activeRenderTask = null;
+  isRendering = false;
+  renderQueue = [];
+  for (const entry of thumbnails) {
+    if (entry.objectUrl) URL.revokeObjectURL(entry.objectUrl);
+  }
+  thumbnails = [];
+  currentThumbnail = null;
+  thumbnailDocument = null;
+  if (thumbnailContainer) thumbnailContainer.innerHTML = '';
+}
+
+/**
+ * Highlights the thumbnail of the given 1-based page and scrolls it into view.
+ */
+export function setCurrentThumbnail(pageNumber: number) {
+  const entry = thumbnails[pageNumber - 1];
+  if (!entry || entry === currentThumbnail) return;
+
+  currentThumbnail?.element.classList.remove('selected');
+  entry.element.classList.add('selected');
+  currentThumbnail = entry;
+
+  // Only scroll while the thumbnail view is shown; hidden views have no layout
+  if (thumbnailContainer && !thumbnailContainer.classList.contains('hidden')) {
+    entry.element.scrollIntoView({ block: 'nearest' });
+  }
+}
+
+/**
+ * Scrolls the current thumbnail into view, e.g. after the view is shown.
+ */
+export function scrollToCurrentThumbnail() {
+  currentThumbnail?.element.scrollIntoView({ block: 'nearest' });
+}
+
+// --- Lazy Rendering ---
+function handleIntersection(entries: IntersectionObserverEntry[]) {
+  for (const intersection of entries) {
+    const pageNumber = Number((intersection.target as HTMLElement).dataset.pageNumber);
+    const entry = thumbnails[pageNumber - 1];
+    if (!entry || entry.rendered) continue;
+
+    if (intersection.isIntersecting) {
+      if (!renderQueue.includes(entry)) renderQueue.push(entry);
+    } else {
+      // Scrolled past before it was rendered, no need to render it anymore
+      renderQueue = renderQueue.filter(queued => queued !== entry);
+    }
+  }
+  renderNextThumbnail();
+}
+
+async function renderNextThumbnail() {
+  if (isRendering || !thumbnailDocument) return;
+  const entry = renderQueue.shift();
+  if (!entry) return;
+  isRendering = true;
+
+  const pdfDocument = thumbnailDocument;
+  const renderGeneration = generation;
+  try {
+    const page = await pdfDocument.getPage(entry.pageNumber);
+    if (renderGeneration !== generation) return;
+
+    const scale = THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width;
+    const viewport = page.getViewport({ scale });
+    const outputScale = window.devicePixelRatio || 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width * outputScale);
+    canvas.height = Math.floor(viewport.height * outputScale);
+
+    activeRenderTask = page.render({
+      canvas,
+      viewport,
+      transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+    });
+    await activeRenderTask.promise;
+    if (renderGeneration !== generation) return;
+
+    // Keep a compressed image rather than a canvas so long documents stay light
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve));
+    if (!blob || renderGeneration !== generation) return;
+    entry.objectUrl = URL.createObjectURL(blob);
+
+    const img = document.createElement('img');
+    img.src = entry.objectUrl;
+    img.alt = `Page ${entry.pageNumber}`;
+    entry.imageContainer.style.height = `${Math.round(viewport.height)}px`;
+    entry.imageContainer.appendChild(img);
+    entry.rendered = true;
+    observer?.unobserve(entry.element);
+  } catch (error) {
+    if ((error as Error)?.name !== 'RenderingCancelledException') {
+      console.error(`Error rendering thumbnail for page ${entry.pageNumber}:`, error);
+    }
+  } finally {
+    if (renderGeneration === generation) {
+      activeRenderTask = null;
+      isRendering = false;
+      renderNextThumbnail();
+    }
+  }
+}
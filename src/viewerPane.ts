@@ -0,0 +1,56 @@
+import {
+  EventBus,
+  PDFFindController,
+  PDFLinkService,
+  PDFViewer,
+} from 'pdfjs-dist/web/pdf_viewer.mjs';
+
+// --- Enums (using fallback values) ---
+const LinkTarget_BLANK = 2;
+const TextLayerMode_ENABLE = 1;
+const AnnotationMode_ENABLE_FORMS = 2;
+
+// --- Type Aliases ---
+// The pdf.js components behind one scrollable view of a document
+export type ViewerPane = {
+  container: HTMLDivElement;
+  eventBus: EventBus;
+  linkService: PDFLinkService;
+  findController: PDFFindController | null; // Only the pane that owns the find bar has one
+  pdfViewer: PDFViewer;
+};
+
+/**
+ * Creates the viewer components for one pane. Each pane has its own event bus,
+ * link service and viewer, so panes scroll, zoom and navigate independently.
+ */
+export function createViewerPane(
+  container: HTMLDivElement,
+  viewer: HTMLDivElement,
+  { withFindController = false }: { withFindController?: boolean } = {},
+): ViewerPane {
+  const eventBus = new EventBus();
+
+  const linkService = new PDFLinkService({
+    eventBus: eventBus,
+    externalLinkTarget: LinkTarget_BLANK,
+  });
+
+  const findController = withFindController
+    ? new PDFFindController({ eventBus: eventBus, linkService: linkService })
+    : null;
+
+  const pdfViewer = new PDFViewer({
+    container: container,
+    viewer: viewer,
+    eventBus: eventBus,
+    linkService: linkService,
+    ...(findController ? { findController } : {}),
+    textLayerMode: TextLayerMode_ENABLE,
+    annotationMode: AnnotationMode_ENABLE_FORMS,
+  });
+
+  linkService.setViewer(pdfViewer);
+
+  return { container, eventBus, linkService, findController, pdfViewer };
+}
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Comma-separated origins allowed to control the viewer through postMessage, see embedApi.ts
+  readonly VITE_EMBED_ALLOWED_ORIGINS?: string;
+}